@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import { AdaptableMap } from './AdaptableMap';
 
@@ -19,4 +19,101 @@ describe('AdaptableMap', () => {
 
     expect(sut.set('foo', data)).toBeUndefined();
   });
+
+  describe('При удалении значения сборщиком мусора', () => {
+    // эмулируем работу сборщика мусора, подменяя WeakRef и FinalizationRegistry
+    const emulateGc = () => {
+      const refs: Array<{ target?: object }> = [];
+      const registeredKeys = new Map<object, string>();
+      let finalize: (key: string) => void = () => {};
+
+      vi.stubGlobal(
+        'WeakRef',
+        class {
+          constructor(public target?: object) {
+            refs.push(this);
+          }
+
+          deref = () => this.target;
+        },
+      );
+
+      vi.stubGlobal(
+        'FinalizationRegistry',
+        class {
+          constructor(cleanup: (key: string) => void) {
+            finalize = cleanup;
+          }
+
+          register = (value: object, key: string) => {
+            registeredKeys.set(value, key);
+          };
+        },
+      );
+
+      const collect = (value: object) => {
+        refs
+          .filter((ref) => ref.target === value)
+          .forEach((ref) => {
+            ref.target = undefined;
+          });
+
+        finalize(registeredKeys.get(value)!);
+      };
+
+      return { collect };
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('Значение удаляется из Map', () => {
+      const { collect } = emulateGc();
+      const sut = new AdaptableMap();
+      const data = {};
+
+      sut.set('foo', data);
+      collect(data);
+      expect(sut.has('foo')).toBeFalsy();
+    });
+
+    it('Вызывается переданный onCollect с ключом значения', () => {
+      const { collect } = emulateGc();
+      const onCollect = vi.fn();
+      const sut = new AdaptableMap(onCollect);
+      const data = {};
+
+      sut.set('foo', data);
+      collect(data);
+      expect(onCollect).toBeCalledWith('foo');
+    });
+
+    it('Новое значение, установленное по тому же ключу, не удаляется', () => {
+      const { collect } = emulateGc();
+      const onCollect = vi.fn();
+      const sut = new AdaptableMap(onCollect);
+      const oldData = {};
+      const newData = {};
+
+      sut.set('foo', oldData);
+      sut.set('foo', newData);
+      collect(oldData);
+      expect(sut.get('foo')).toBe(newData);
+      expect(onCollect).not.toBeCalled();
+    });
+
+    it('"Сильное" значение не удаляется', () => {
+      const { collect } = emulateGc();
+      const onCollect = vi.fn();
+      const sut = new AdaptableMap(onCollect);
+      const data = {};
+
+      sut.set('foo', data);
+      sut.convertToStrong('foo');
+      collect(data);
+      expect(sut.get('foo')).toBe(data);
+      expect(onCollect).not.toBeCalled();
+    });
+  });
 });
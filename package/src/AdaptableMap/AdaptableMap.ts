@@ -5,12 +5,38 @@ export type SimplifiedMap<TData> = Pick<
   set: (key: string, value: TData) => void;
 };
 
+/**
+ * Колбэк, вызываемый после удаления значения сборщиком мусора
+ */
+export type OnCollect = (key: string) => void;
+
 /**
  * Фасад для работы с Map, хранящим значения как WeakRef
  */
 class WeakRefMap<TData extends {}> implements SimplifiedMap<TData> {
   private readonly map = new Map<string, WeakRef<TData> | TData>();
 
+  constructor(private readonly onCollect?: OnCollect) {}
+
+  /**
+   * Обработчик удаления значения сборщиком мусора,
+   * удаляет из Map ставшую пустой ссылку
+   */
+  private handleCollect = (key: string) => {
+    const ref = this.map.get(key) as WeakRef<TData> | undefined;
+
+    // по ключу уже может храниться новое значение, которое удалять нельзя
+    if (ref && !ref.deref()) {
+      this.map.delete(key);
+      this.onCollect?.(key);
+    }
+  };
+
+  // Проверка на старые браузеры, не умеющие в FinalizationRegistry
+  private readonly registry = globalThis.FinalizationRegistry
+    ? new globalThis.FinalizationRegistry<string>(this.handleCollect)
+    : null;
+
   public get = (key: string) => {
     // Проверка на старые браузеры, не умеющие в WeakRef
     if (!globalThis.WeakRef) {
@@ -26,6 +52,7 @@ class WeakRefMap<TData extends {}> implements SimplifiedMap<TData> {
       this.map.set(key, value);
     } else {
       this.map.set(key, new globalThis.WeakRef(value));
+      this.registry?.register(value, key);
     }
   };
 
@@ -43,7 +70,14 @@ class WeakRefMap<TData extends {}> implements SimplifiedMap<TData> {
 export class AdaptableMap<TData extends {}> implements SimplifiedMap<TData> {
   private strong: SimplifiedMap<TData> = new Map<string, TData>();
 
-  private weak: SimplifiedMap<TData> = new WeakRefMap<TData>();
+  private weak: SimplifiedMap<TData>;
+
+  /**
+   * @param onCollect - колбэк, вызываемый после удаления "слабого" значения сборщиком мусора
+   */
+  constructor(onCollect?: OnCollect) {
+    this.weak = new WeakRefMap<TData>(onCollect);
+  }
 
   public get = (key: string): TData | undefined => {
     if (this.strong.has(key)) {
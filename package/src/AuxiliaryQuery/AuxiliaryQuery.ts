@@ -1,14 +1,123 @@
-import { action, makeObservable, observable, runInAction } from 'mobx';
+import {
+  type IReactionDisposer,
+  action,
+  computed,
+  makeObservable,
+  observable,
+  onBecomeObserved,
+  onBecomeUnobserved,
+  reaction,
+  runInAction,
+  when,
+} from 'mobx';
 
 import { type StatusStorage } from '../StatusStorage';
+import { type FocusManager } from '../FocusManager';
+import { type OnlineManager } from '../OnlineManager';
+import { type ExecutionGate } from '../ExecutionGate';
+import type {
+  Enabled,
+  InvalidateQueryParams,
+  NetworkMode,
+  Retry,
+  RetryDelay,
+} from '../types';
+import { CancelledError } from '../CancelledError';
 
 /**
  * Испольнитель запроса
  */
-type Executor<TResult> = () => Promise<TResult>;
+type Executor<TResult> = (signal: AbortSignal) => Promise<TResult>;
+
+/**
+ * Состояние статусов на момент старта запроса, для восстановления при отмене
+ */
+type StatusesSnapshot<TError> = {
+  storage: StatusStorage<TError>;
+  isLoading: boolean;
+  isPaused: boolean;
+  isError: boolean;
+  isSuccess: boolean;
+  error?: TError;
+  isIdle: boolean;
+  failureCount: number;
+  failureReason?: TError;
+};
 
 type SetStorage<TError> = (storage: StatusStorage<TError>) => void;
 
+type PollingParams = {
+  /**
+   * Флаг, при котором опрос продолжается на скрытой странице
+   * @default false
+   */
+  inBackground?: boolean;
+  /**
+   * Менеджер фокуса, по которому опрос приостанавливается на скрытой странице.
+   * Без менеджера страница считается видимой всегда
+   */
+  focusManager?: FocusManager;
+};
+
+/**
+ * Максимальная задержка, поддерживаемая setTimeout
+ */
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Максимальная задержка перед повторной попыткой запроса по умолчанию
+ */
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Экспоненциальная задержка перед повторной попыткой запроса со случайным разбросом,
+ * чтобы повторные запросы множества клиентов не приходили на сервер единомоментно
+ */
+const defaultRetryDelay = (failureCount: number) => {
+  const delay = Math.min(1000 * 2 ** (failureCount - 1), MAX_RETRY_DELAY);
+
+  return delay / 2 + (Math.random() * delay) / 2;
+};
+
+export type AuxiliaryQueryParams<TError> = {
+  /**
+   * Время в миллисекундах, по истечении которого данные считаются устаревшими
+   * @default Infinity
+   */
+  staleTime?: number;
+  /**
+   * Количество повторных попыток запроса после ошибки,
+   * либо предикат, определяющий необходимость повторной попытки
+   * @default 0
+   */
+  retry?: Retry<TError>;
+  /**
+   * Задержка в миллисекундах перед повторной попыткой запроса,
+   * либо функция ее вычисления
+   * @default экспоненциальная задержка со случайным разбросом, не более 30 секунд
+   */
+  retryDelay?: RetryDelay<TError>;
+  /**
+   * Флаг доступности запросов, либо функция его вычисления, отслеживаемая mobx
+   * @default true
+   */
+  enabled?: Enabled;
+  /**
+   * Режим работы с сетью
+   * @default 'online'
+   */
+  networkMode?: NetworkMode;
+  /**
+   * Менеджер сети, по которому запросы приостанавливаются до восстановления сети.
+   * Без менеджера сеть считается доступной всегда
+   */
+  onlineManager?: OnlineManager;
+  /**
+   * Шлюз исполнения, по которому новые запросы приостанавливаются до возобновления
+   */
+  executionGate?: ExecutionGate;
+};
+
 /**
  * Вспомогательное хранилище данных, для композиции в Query сторах,
  * содержащее флаги загрузки и ошибки,
@@ -32,44 +141,211 @@ export class AuxiliaryQuery<TResult, TError = void> {
    */
   public isInvalid: boolean = false;
 
+  /**
+   * Флаг инвалидации без перезапроса: данные считаются устаревшими,
+   * но наблюдаемый квери не перезапрашивает их автоматически
+   */
+  private isInvalidWithoutRefetch = false;
+
+  /**
+   * Функция получения времени обновления данных, по которому вычисляется устаревание
+   */
+  private getDataUpdatedAt?: () => number | undefined;
+
+  /**
+   * Время последнего срабатывания таймера устаревания,
+   * его изменение заставляет наблюдателей пересчитать isOutdated
+   */
+  private staleCheckedAt = 0;
+
+  /**
+   * Диспоузер реакции, планирующей таймер устаревания, пока за устареванием наблюдают
+   */
+  private disposeStaleTracking?: IReactionDisposer;
+
+  /**
+   * Диспоузер периодического перезапроса данных, останавливает реакцию и таймер опроса
+   */
+  private disposePolling?: () => void;
+
+  /**
+   * Метод перезапуска периодического перезапроса данных с начала интервала
+   */
+  private restartPolling?: () => void;
+
+  /**
+   * Время в миллисекундах, по истечении которого данные считаются устаревшими
+   */
+  private readonly staleTime: number;
+
+  /**
+   * Таймер, по срабатыванию которого данные становятся устаревшими
+   */
+  private staleTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Количество неудачных попыток текущего запроса
+   */
+  public failureCount = 0;
+
+  /**
+   * Ошибка последней неудачной попытки текущего запроса
+   */
+  public failureReason?: TError = undefined;
+
+  /**
+   * Количество повторных попыток запроса, либо предикат необходимости повторной попытки
+   */
+  private readonly retry: Retry<TError>;
+
+  /**
+   * Задержка перед повторной попыткой запроса
+   */
+  private readonly retryDelay: RetryDelay<TError>;
+
+  /**
+   * Контроллер отмены текущего запроса
+   */
+  private abortController?: AbortController;
+
+  /**
+   * Состояние статусов на момент старта текущего запроса
+   */
+  private statusesSnapshot?: StatusesSnapshot<TError>;
+
+  /**
+   * Колбэк, вызываемый при отмене текущего запроса
+   */
+  private onCancel?: () => void;
+
+  /**
+   * Флаг доступности запросов, либо функция его вычисления
+   */
+  private readonly enabled: Enabled;
+
+  /**
+   * Диспоузер отложенного до включения квери запроса
+   */
+  private disposeDeferred?: IReactionDisposer;
+
+  /**
+   * Количество наблюдаемых полей квери
+   */
+  public observedFieldsCount = 0;
+
+  /**
+   * Изменение количества наблюдаемых полей, ожидающее применения
+   */
+  private pendingObservedFieldsDelta = 0;
+
+  /**
+   * Флаг, обозначающий, что применение изменения количества наблюдаемых полей уже запланировано
+   */
+  private isObservedFieldsFlushScheduled = false;
+
+  /**
+   * Режим работы с сетью
+   */
+  private readonly networkMode: NetworkMode;
+
+  /**
+   * Менеджер сети
+   */
+  private readonly onlineManager?: OnlineManager;
+
+  /**
+   * Шлюз исполнения запросов
+   */
+  private readonly executionGate?: ExecutionGate;
+
   constructor(
     private readonly statusStorage: StatusStorage<TError>,
     private readonly backgroundStatusStorage: StatusStorage<TError> | null,
+    {
+      staleTime = Infinity,
+      retry = 0,
+      retryDelay = defaultRetryDelay,
+      enabled = true,
+      networkMode = 'online',
+      onlineManager,
+      executionGate,
+    }: AuxiliaryQueryParams<TError> = {},
   ) {
+    this.enabled = enabled;
+    this.networkMode = networkMode;
+    this.onlineManager = onlineManager;
+    this.executionGate = executionGate;
+    this.staleTime = staleTime;
+    this.retry = retry;
+    this.retryDelay = retryDelay;
+
     makeObservable(this as ThisType<this>, {
       getUnifiedPromise: action,
       isIdle: observable,
       isInvalid: observable,
+      isInvalidWithoutRefetch: observable,
+      isOutdated: computed,
+      staleCheckedAt: observable,
+      failureCount: observable,
+      failureReason: observable,
+      observedFieldsCount: observable,
+      isActive: computed,
+      submitFailure: action,
+      isStale: computed,
+      shouldRefetch: computed,
+      isEnabled: computed,
+      markOutdated: action,
       submitSuccess: action,
       setSuccess: action,
       setError: action,
       setLoading: action,
+      setPaused: action,
+      setIdle: action,
       submitError: action,
       startLoading: action,
       invalidate: action,
+      cancel: action,
+      reset: action,
     });
   }
 
   /**
    * Метод ответственный за создание единого промиса,
-   * для устранения гонки запросов
+   * для устранения гонки запросов.
+   * onCancel вызывается при отмене запроса, только если запрос был создан этим вызовом
    */
   public getUnifiedPromise = (
     executor: Executor<TResult>,
     onSuccess?: (data: TResult) => void,
+    onCancel?: () => void,
   ) => {
     // проверяем, если синглтона нет, то надо создать
     if (!Boolean(this.unifiedPromise)) {
+      const abortController = new AbortController();
+      const { signal } = abortController;
+
+      this.abortController = abortController;
+      this.statusesSnapshot = this.takeStatusesSnapshot();
+      this.onCancel = onCancel;
       this.startLoading();
 
-      this.unifiedPromise = executor()
+      this.unifiedPromise = this.executeWhenReleased(executor, signal)
         .then((resData: TResult) => {
+          // ответ отмененного запроса не должен попасть в хранилище
+          if (signal.aborted) {
+            throw signal.reason;
+          }
+
           runInAction(this.submitSuccess);
           onSuccess?.(resData);
 
           return resData;
         })
         .catch((e) => {
+          if (signal.aborted) {
+            throw signal.reason;
+          }
+
           runInAction(() => {
             this.submitError(e);
           });
@@ -77,10 +353,26 @@ export class AuxiliaryQuery<TResult, TError = void> {
           throw e;
         })
         .finally(() => {
+          // статусы отмененного запроса уже восстановлены,
+          // а промис мог быть заменен новым запросом
+          if (signal.aborted) {
+            return;
+          }
+
           this.unifiedPromise = undefined;
+          this.abortController = undefined;
+          this.statusesSnapshot = undefined;
+          this.onCancel = undefined;
 
           runInAction(() => {
             this.statusStorage.isLoading = false;
+            // запрос мог завершиться ошибкой, так и не дождавшись возобновления
+            this.statusStorage.isPaused = false;
+
+            if (this.backgroundStatusStorage) {
+              this.backgroundStatusStorage.isLoading = false;
+              this.backgroundStatusStorage.isPaused = false;
+            }
           });
         });
     }
@@ -88,6 +380,105 @@ export class AuxiliaryQuery<TResult, TError = void> {
     return this.unifiedPromise as Promise<TResult>;
   };
 
+  /**
+   * Метод, исполняющий запрос после возобновления запросов, если они приостановлены.
+   * На время ожидания статус загрузки сменяется статусом приостановки
+   */
+  private executeWhenReleased = (
+    executor: Executor<TResult>,
+    signal: AbortSignal,
+  ): Promise<TResult> => {
+    const { executionGate } = this;
+
+    // без приостановки запрос исполняется синхронно
+    if (!executionGate?.isPaused) {
+      return this.executeWithRetry(executor, signal);
+    }
+
+    this.checkBackgroundAndSet(this.setPaused);
+
+    return executionGate.wait(signal).then(() => {
+      this.checkBackgroundAndSet(this.setLoading);
+
+      return this.executeWithRetry(executor, signal);
+    });
+  };
+
+  /**
+   * Метод, исполняющий запрос с повторными попытками в случае ошибки
+   */
+  private executeWithRetry = (
+    executor: Executor<TResult>,
+    signal: AbortSignal,
+  ): Promise<TResult> => {
+    const attempt = () =>
+      new Promise<TResult>((resolve, reject) => {
+        const handleAbort = () => reject(signal.reason);
+
+        // при отмене не дожидаемся ответа, т.к. executor может игнорировать сигнал
+        signal.addEventListener('abort', handleAbort, { once: true });
+
+        executor(signal)
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener('abort', handleAbort));
+      });
+
+    // без необходимости ждать сеть запрос исполняется синхронно
+    const request = this.shouldWaitForNetwork
+      ? this.waitForNetwork(signal).then(attempt)
+      : attempt();
+
+    return request.catch((error: TError) => {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+
+      this.submitFailure(error);
+
+      if (!this.shouldRetry(error)) {
+        return Promise.reject(error);
+      }
+
+      const delay =
+        typeof this.retryDelay === 'function'
+          ? this.retryDelay(this.failureCount, error)
+          : this.retryDelay;
+
+      return new Promise<void>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const handleAbort = () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        };
+
+        timer = setTimeout(() => {
+          signal.removeEventListener('abort', handleAbort);
+          resolve();
+        }, delay);
+
+        // при отмене не дожидаемся окончания задержки
+        signal.addEventListener('abort', handleAbort, { once: true });
+      }).then(() => this.executeWithRetry(executor, signal));
+    });
+  };
+
+  private shouldRetry = (error: TError) => {
+    if (typeof this.retry === 'function') {
+      return this.retry(this.failureCount, error);
+    }
+
+    return this.failureCount <= this.retry;
+  };
+
+  /**
+   * Обработчик неудачной попытки запроса
+   */
+  private submitFailure = (error: TError) => {
+    this.failureCount += 1;
+    this.failureReason = error;
+  };
+
   private setSuccess: SetStorage<TError> = (storage) => {
     storage.isError = false;
     storage.isSuccess = true;
@@ -107,12 +498,16 @@ export class AuxiliaryQuery<TResult, TError = void> {
   public submitSuccess = () => {
     this.checkBackgroundAndSet(this.setSuccess);
     this.isInvalid = false;
+    this.isInvalidWithoutRefetch = false;
+    this.failureCount = 0;
+    this.failureReason = undefined;
   };
 
   private setError = (storage: StatusStorage<TError>, error: TError) => {
     storage.isSuccess = false;
     storage.isError = true;
     storage.error = error;
+    storage.errorUpdatedAt = Date.now();
   };
 
   /**
@@ -124,22 +519,413 @@ export class AuxiliaryQuery<TResult, TError = void> {
 
   private setLoading: SetStorage<TError> = (storage) => {
     storage.isLoading = true;
+    storage.isPaused = false;
     storage.isError = false;
     storage.isSuccess = false;
   };
 
+  private setPaused: SetStorage<TError> = (storage) => {
+    storage.isLoading = false;
+    storage.isPaused = true;
+  };
+
+  /**
+   * Флаг, обозначающий, что очередная попытка запроса должна дождаться восстановления сети
+   */
+  private get shouldWaitForNetwork() {
+    if (!this.onlineManager || this.onlineManager.isOnline) {
+      return false;
+    }
+
+    return (
+      this.networkMode === 'online' ||
+      // в offlineFirst режиме без сети приостанавливаются только повторные попытки
+      (this.networkMode === 'offlineFirst' && this.failureCount > 0)
+    );
+  }
+
+  /**
+   * Метод ожидания восстановления сети перед попыткой запроса.
+   * На время ожидания статус загрузки сменяется статусом приостановки
+   */
+  private waitForNetwork = (signal: AbortSignal) => {
+    this.checkBackgroundAndSet(this.setPaused);
+
+    return new Promise<void>((resolve, reject) => {
+      let unsubscribe: (() => void) | undefined;
+
+      const handleAbort = () => {
+        unsubscribe?.();
+        reject(signal.reason);
+      };
+
+      unsubscribe = this.onlineManager?.subscribe(() => {
+        unsubscribe?.();
+        signal.removeEventListener('abort', handleAbort);
+        this.checkBackgroundAndSet(this.setLoading);
+        resolve();
+      });
+
+      // при отмене не дожидаемся восстановления сети
+      signal.addEventListener('abort', handleAbort, { once: true });
+    });
+  };
+
   /**
    * Метод, вызываемый в самом начале запроса, чтобы сбросить флаги в соответствующее значение
    */
   public startLoading = () => {
     this.isIdle = false;
+    this.failureCount = 0;
+    this.failureReason = undefined;
     this.checkBackgroundAndSet(this.setLoading);
   };
 
+  private setIdle: SetStorage<TError> = (storage) => {
+    storage.isLoading = false;
+    storage.isPaused = false;
+    storage.isError = false;
+    storage.error = undefined;
+    storage.errorUpdatedAt = undefined;
+    storage.isSuccess = false;
+  };
+
+  private takeStatusesSnapshot = (): StatusesSnapshot<TError> => {
+    const storage =
+      this.backgroundStatusStorage && this.statusStorage.isSuccess
+        ? this.backgroundStatusStorage
+        : this.statusStorage;
+
+    return {
+      storage,
+      isLoading: storage.isLoading,
+      isPaused: storage.isPaused,
+      isError: storage.isError,
+      isSuccess: storage.isSuccess,
+      error: storage.error,
+      isIdle: this.isIdle,
+      failureCount: this.failureCount,
+      failureReason: this.failureReason,
+    };
+  };
+
   /**
-   * Метод для инвалидации данных
+   * Метод отмены текущего запроса.
+   * Прерывает запрос через AbortSignal и восстанавливает статусы, бывшие до его старта.
+   * Промис отмененного запроса завершается ошибкой CancelledError
+   * @returns true, если был отменен запрос
    */
-  public invalidate = () => {
-    this.isInvalid = true;
+  public cancel = () => {
+    this.cancelDeferred();
+
+    const { abortController, statusesSnapshot, onCancel } = this;
+
+    if (!abortController || !statusesSnapshot) {
+      return false;
+    }
+
+    this.unifiedPromise = undefined;
+    this.abortController = undefined;
+    this.statusesSnapshot = undefined;
+    this.onCancel = undefined;
+
+    const { storage, isIdle, failureCount, failureReason, ...statuses } =
+      statusesSnapshot;
+
+    Object.assign(storage, statuses);
+    this.isIdle = isIdle;
+    this.failureCount = failureCount;
+    this.failureReason = failureReason;
+    onCancel?.();
+    abortController.abort(new CancelledError());
+
+    return true;
+  };
+
+  /**
+   * Метод сброса в исходное состояние, как будто запроса еще не было.
+   * Текущий запрос отменяется, статусы сбрасываются в обоих хранилищах
+   */
+  public reset = () => {
+    this.cancel();
+    clearTimeout(this.staleTimer);
+    // текущий интервал опроса прерывается, а отсчет следующего начинается заново
+    this.restartPolling?.();
+    this.setIdle(this.statusStorage);
+
+    if (this.backgroundStatusStorage) {
+      this.setIdle(this.backgroundStatusStorage);
+    }
+
+    this.isIdle = true;
+    this.isInvalid = false;
+    this.isInvalidWithoutRefetch = false;
+    this.staleCheckedAt = 0;
+    this.failureCount = 0;
+    this.failureReason = undefined;
+  };
+
+  /**
+   * Флаг, обозначающий, что квери разрешено исполнять запросы
+   */
+  public get isEnabled() {
+    return typeof this.enabled === 'function' ? this.enabled() : this.enabled;
+  }
+
+  /**
+   * Метод, откладывающий запрос до включения квери.
+   * Повторный вызов заменяет ранее отложенный запрос
+   */
+  public deferUntilEnabled = (request: () => void) => {
+    this.cancelDeferred();
+
+    this.disposeDeferred = when(
+      () => this.isEnabled,
+      () => {
+        this.disposeDeferred = undefined;
+        request();
+      },
+    );
+  };
+
+  /**
+   * Метод отмены отложенного до включения квери запроса
+   */
+  private cancelDeferred = () => {
+    this.disposeDeferred?.();
+    this.disposeDeferred = undefined;
+  };
+
+  /**
+   * Метод для инвалидации данных.
+   * Без перезапроса меняется только флаг устаревания, от которого не зависит shouldRefetch,
+   * поэтому реакция автоматического запроса не срабатывает
+   */
+  public invalidate = ({ refetch = true }: InvalidateQueryParams = {}) => {
+    if (refetch) {
+      this.isInvalid = true;
+    } else {
+      this.isInvalidWithoutRefetch = true;
+    }
+  };
+
+  /**
+   * Флаг, обозначающий, что за квери кто-то наблюдает
+   */
+  public get isActive() {
+    return this.observedFieldsCount > 0;
+  }
+
+  /**
+   * Метод запуска периодического перезапроса данных.
+   * Опрос идет, только пока за квери наблюдают и он включен,
+   * интервал пересчитывается при изменении используемых в getInterval observable
+   */
+  public watchPolling = (
+    getInterval: () => number | false,
+    refetch: () => void,
+    { inBackground = false, focusManager }: PollingParams = {},
+  ) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribeFocus: (() => void) | undefined;
+
+    const isHidden = () =>
+      !inBackground && focusManager !== undefined && !focusManager.isFocused;
+
+    const stop = () => {
+      clearTimeout(timer);
+      unsubscribeFocus?.();
+      timer = undefined;
+      unsubscribeFocus = undefined;
+    };
+
+    const start = (interval: number) => {
+      const tick = () => {
+        timer = undefined;
+
+        // на скрытой странице опрос приостанавливается до возвращения пользователя
+        if (isHidden()) {
+          return;
+        }
+
+        refetch();
+        timer = setTimeout(tick, interval);
+      };
+
+      unsubscribeFocus = focusManager?.subscribe(() => {
+        // возвращение на страницу возобновляет приостановленный опрос
+        if (timer === undefined) {
+          tick();
+        }
+      });
+
+      timer = setTimeout(tick, interval);
+    };
+
+    this.stopPolling();
+
+    const disposeReaction = reaction(
+      () => (this.isActive && this.isEnabled ? getInterval() : false),
+      (interval) => {
+        stop();
+
+        // бесконечный интервал переполнил бы таймер, поэтому означает отсутствие опроса
+        if (interval !== false && interval > 0 && Number.isFinite(interval)) {
+          start(interval);
+        }
+      },
+      { fireImmediately: true },
+    );
+
+    this.disposePolling = () => {
+      disposeReaction();
+      stop();
+    };
+
+    this.restartPolling = () =>
+      this.watchPolling(getInterval, refetch, { inBackground, focusManager });
+  };
+
+  /**
+   * Метод окончательной остановки периодического перезапроса данных,
+   * например, при удалении квери из кеша
+   */
+  public stopPolling = () => {
+    this.disposePolling?.();
+    this.disposePolling = undefined;
+    this.restartPolling = undefined;
+  };
+
+  /**
+   * Метод отслеживания наблюдения за полями квери
+   */
+  public trackObservers = <TTarget extends object>(
+    target: TTarget,
+    fields: Array<keyof TTarget>,
+  ) => {
+    fields.forEach((field) => {
+      onBecomeObserved(target, field, () => this.changeObservedFieldsCount(1));
+
+      onBecomeUnobserved(target, field, () =>
+        this.changeObservedFieldsCount(-1),
+      );
+    });
+  };
+
+  /**
+   * Метод изменения количества наблюдаемых полей.
+   * Наблюдение начинается во время вычисления наблюдателя, где изменять observable нельзя,
+   * поэтому изменения накапливаются и применяются одним действием после завершения текущих вычислений mobx
+   */
+  private changeObservedFieldsCount = (delta: number) => {
+    this.pendingObservedFieldsDelta += delta;
+
+    if (this.isObservedFieldsFlushScheduled) {
+      return;
+    }
+
+    this.isObservedFieldsFlushScheduled = true;
+    when(() => true, this.flushObservedFieldsCount);
+  };
+
+  /**
+   * Метод применения накопленного изменения количества наблюдаемых полей
+   */
+  private flushObservedFieldsCount = () => {
+    this.observedFieldsCount += this.pendingObservedFieldsDelta;
+    this.pendingObservedFieldsDelta = 0;
+    this.isObservedFieldsFlushScheduled = false;
+  };
+
+  /**
+   * Флаг, обозначающий, что данные устарели, т.е. были инвалидированы, либо истек staleTime
+   */
+  public get isStale() {
+    return this.isInvalid || this.isInvalidWithoutRefetch || this.isOutdated;
+  }
+
+  /**
+   * Флаг, по которому реактивно определяется необходимость перезапроса данных при наблюдении за ними.
+   * При нулевом staleTime данные устаревают сразу после получения,
+   * поэтому, чтобы не зациклить запросы, по времени они перезапрашиваются только через sync/async
+   */
+  public get shouldRefetch() {
+    return this.isInvalid || (this.isOutdated && this.staleTime > 0);
+  }
+
+  /**
+   * Флаг, обозначающий, что с момента обновления данных прошло больше staleTime.
+   * Вычисляется по текущему времени при каждом чтении,
+   * а наблюдатели пересчитывают его по таймеру устаревания
+   */
+  public get isOutdated() {
+    const dataUpdatedAt = this.getDataUpdatedAt?.();
+
+    if (dataUpdatedAt === undefined || !Number.isFinite(this.staleTime)) {
+      return false;
+    }
+
+    return (
+      dataUpdatedAt + this.staleTime <=
+      Math.max(Date.now(), this.staleCheckedAt)
+    );
+  }
+
+  private markOutdated = (expiredAt: number) => {
+    this.staleCheckedAt = expiredAt;
+  };
+
+  /**
+   * Метод отслеживания устаревания данных.
+   * Хранилище данных общее для квери с одним ключом,
+   * поэтому подписка на него существует, только пока за устареванием наблюдают,
+   * иначе хранилище удерживало бы в памяти все когда-либо созданные квери
+   */
+  public watchStaleness = (getDataUpdatedAt: () => number | undefined) => {
+    this.getDataUpdatedAt = getDataUpdatedAt;
+
+    if (!Number.isFinite(this.staleTime)) {
+      return;
+    }
+
+    onBecomeObserved(this, 'isOutdated', this.startStaleTracking);
+    onBecomeUnobserved(this, 'isOutdated', this.stopStaleTracking);
+  };
+
+  /**
+   * Метод запуска планирования таймера устаревания,
+   * таймер перепланируется при каждом обновлении данных,
+   * в том числе, если данные обновил другой инстанс с тем же хранилищем
+   */
+  private startStaleTracking = () => {
+    this.disposeStaleTracking = reaction(
+      () => this.getDataUpdatedAt?.(),
+      this.scheduleStaleTimer,
+      { fireImmediately: true },
+    );
+  };
+
+  private stopStaleTracking = () => {
+    this.disposeStaleTracking?.();
+    this.disposeStaleTracking = undefined;
+    clearTimeout(this.staleTimer);
+  };
+
+  private scheduleStaleTimer = (dataUpdatedAt?: number) => {
+    clearTimeout(this.staleTimer);
+
+    if (dataUpdatedAt === undefined) {
+      return;
+    }
+
+    const expiredAt = dataUpdatedAt + this.staleTime;
+    const timeLeft = expiredAt - Date.now();
+
+    if (timeLeft > 0 && timeLeft <= MAX_TIMER_DELAY) {
+      this.staleTimer = setTimeout(
+        () => this.markOutdated(expiredAt),
+        timeLeft,
+      );
+    }
   };
 }
@@ -0,0 +1,9 @@
+/**
+ * Ошибка, с которой завершается запрос, отмененный через cancel
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Запрос отменен');
+    this.name = 'CancelledError';
+  }
+}
@@ -1,8 +1,11 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { autorun, isObservable } from 'mobx';
 
 import { DataStorage, DataStorageFactory } from './DataStorage';
 
 describe('DataStorage', () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+
   const createStorage = () => new DataStorage();
 
   describe('При исходном состоянии', () => {
@@ -33,6 +36,133 @@ describe('DataStorage', () => {
       storage.setData(['foo']);
       expect(storage.data).toStrictEqual(['foo']);
     });
+
+    it('Время обновления данных запоминается', () => {
+      const storage = createStorage();
+
+      storage.setData(['foo']);
+      expect(storage.dataUpdatedAt).toBe(Date.now());
+    });
+
+    it('Переданное время обновления данных запоминается', () => {
+      const storage = createStorage();
+
+      storage.setData(['foo'], { updatedAt: 1000 });
+      expect(storage.dataUpdatedAt).toBe(1000);
+    });
+
+    it.each([0, '', false, null])(
+      'Флаг наличия данных включен для значения %s',
+      (value) => {
+        const storage = new DataStorage<unknown>();
+
+        storage.setData(value);
+        expect(storage.hasData).toBeTruthy();
+      },
+    );
+
+    it('Источником данных по умолчанию является запрос', () => {
+      const storage = createStorage();
+
+      storage.setData(['foo']);
+      expect(storage.source).toBe('network');
+    });
+
+    it('Переданный источник данных запоминается', () => {
+      const storage = createStorage();
+
+      storage.setData(['foo'], { source: 'forceUpdate' });
+      expect(storage.source).toBe('forceUpdate');
+    });
+  });
+
+  describe('При очистке данных', () => {
+    it('Данные и время обновления удаляются', () => {
+      const storage = createStorage();
+
+      storage.setData(['foo']);
+      storage.clear();
+      expect(storage.data).toBeUndefined();
+      expect(storage.hasData).toBeFalsy();
+      expect(storage.dataUpdatedAt).toBeUndefined();
+      expect(storage.source).toBeUndefined();
+    });
+  });
+
+  describe('При вычислении новых данных', () => {
+    it('Данные возвращаются как есть', () => {
+      const storage = createStorage();
+
+      expect(storage.resolveData(['foo'])).toStrictEqual(['foo']);
+    });
+
+    it('Функция вызывается с текущими данными', () => {
+      const storage = createStorage();
+
+      storage.setData(['foo']);
+
+      expect(
+        storage.resolveData((prevData: unknown) => [prevData, 'bar']),
+      ).toStrictEqual([['foo'], 'bar']);
+    });
+  });
+
+  describe('При структурном разделении данных', () => {
+    it('Неизмененные части данных сохраняют прежние ссылки', () => {
+      const storage = new DataStorage<{
+        user: { name: string };
+        list: Array<{ id: number }>;
+      }>();
+
+      storage.setData({ user: { name: 'foo' }, list: [{ id: 1 }, { id: 2 }] });
+
+      const { user, list } = storage.data!;
+
+      storage.setData({ user: { name: 'foo' }, list: [{ id: 1 }, { id: 3 }] });
+      expect(storage.data!.user).toBe(user);
+      expect(storage.data!.list[0]).toBe(list[0]);
+      expect(storage.data!.list[1]).not.toBe(list[1]);
+    });
+
+    it('Структурно равные данные не вызывают реакций', () => {
+      const storage = new DataStorage<Array<{ id: number }>>();
+      const onChange = vi.fn();
+
+      storage.setData([{ id: 1 }]);
+
+      const dispose = autorun(() => onChange(storage.data));
+
+      storage.setData([{ id: 1 }]);
+      dispose();
+      expect(onChange).toBeCalledTimes(1);
+    });
+  });
+
+  describe('При разных режимах наблюдаемости', () => {
+    it('В режиме deep данные конвертируются в observable', () => {
+      const storage = new DataStorage<{ name: string }>();
+
+      storage.setData({ name: 'foo' });
+      expect(isObservable(storage.data)).toBeTruthy();
+    });
+
+    it('В режиме ref данные хранятся как есть', () => {
+      const storage = new DataStorage<{ name: string }>('ref');
+      const data = { name: 'foo' };
+
+      storage.setData(data);
+      expect(isObservable(storage.data)).toBeFalsy();
+      expect(storage.data).toBe(data);
+    });
+
+    it('В режиме struct данные хранятся как есть', () => {
+      const storage = new DataStorage<{ name: string }>('struct');
+      const data = { name: 'foo' };
+
+      storage.setData(data);
+      expect(isObservable(storage.data)).toBeFalsy();
+      expect(storage.data).toBe(data);
+    });
   });
 });
 
@@ -54,4 +184,12 @@ describe('DataStorageFactory', () => {
 
     expect(storageA !== storageB).toBeTruthy();
   });
+
+  it('Режим наблюдаемости применяется при создании хранилища', () => {
+    const factory = new DataStorageFactory();
+    const data = { name: 'foo' };
+
+    factory.getStorage('foo', 'ref').setData(data);
+    expect(factory.getStorage('foo').data).toBe(data);
+  });
 });
@@ -1,9 +1,91 @@
-import { makeAutoObservable } from 'mobx';
+import { action, computed, makeObservable, observable } from 'mobx';
 
 import { StorageFactory } from '../StorageFactory';
+import type { DataUpdater } from '../types';
 
 /**
- * Хранилище данных, предназначено для обеспечения единого интерфейса при работе с данными
+ * Режим наблюдаемости хранимых данных.
+ * @enum deep - данные рекурсивно преобразуются в observable
+ * @enum ref - наблюдается только ссылка на данные, сами данные не преобразуются, подходит для больших read-only списков
+ * @enum struct - как и ref, данные не преобразуются, а наблюдается только ссылка на них.
+ * Структурно равные новые данные не заменяют прежние во всех режимах благодаря структурному разделению,
+ * поэтому struct ведет себя так же, как ref
+ */
+export type DataObservability = 'deep' | 'ref' | 'struct';
+
+/**
+ * Источник последнего обновления данных.
+ * @enum network - ответ запроса
+ * @enum forceUpdate - ручная установка через forceUpdate или setQueryData
+ * @enum hydrated - данные восстановлены из сохраненного состояния кеша
+ * @enum initial - начальные данные квери
+ */
+export type DataSource = 'network' | 'forceUpdate' | 'hydrated' | 'initial';
+
+type SetDataParams = {
+  /**
+   * Время обновления данных в миллисекундах
+   * @default Date.now()
+   */
+  updatedAt?: number;
+  /**
+   * Источник данных
+   * @default 'network'
+   */
+  source?: DataSource;
+};
+
+const observabilityAnnotations = {
+  deep: observable.deep,
+  ref: observable.ref,
+  struct: observable.struct,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Структурное разделение данных: возвращает новые данные,
+ * в которых не изменившиеся поддеревья заменены на поддеревья из прежних данных.
+ * Если данные структурно равны, возвращаются прежние данные
+ */
+const replaceEqualDeep = (prev: unknown, next: unknown): unknown => {
+  if (prev === next) {
+    return prev;
+  }
+
+  const isArrays = Array.isArray(prev) && Array.isArray(next);
+
+  if (!isArrays && !(isPlainObject(prev) && isPlainObject(next))) {
+    return next;
+  }
+
+  const prevItems = prev as Record<string, unknown>;
+  const nextItems = next as Record<string, unknown>;
+  const prevKeys = Object.keys(prevItems);
+  const nextKeys = Object.keys(nextItems);
+  const result = (isArrays ? [] : {}) as Record<string, unknown>;
+  let equalItemsCount = 0;
+
+  nextKeys.forEach((key) => {
+    result[key] = replaceEqualDeep(prevItems[key], nextItems[key]);
+
+    if (result[key] === prevItems[key] && key in prevItems) {
+      equalItemsCount++;
+    }
+  });
+
+  return prevKeys.length === nextKeys.length &&
+    equalItemsCount === prevKeys.length
+    ? prev
+    : result;
+};
+
+/**
+ * Хранилище данных, предназначено для обеспечения единого интерфейса при работе с данными.
+ * Новые данные структурно разделяются с прежними, поэтому не изменившиеся поддеревья сохраняют свою идентичность
  */
 export class DataStorage<TData> {
   /**
@@ -11,24 +93,76 @@ export class DataStorage<TData> {
    */
   private internalData?: TData = undefined;
 
-  constructor() {
-    makeAutoObservable(this);
+  /**
+   * Флаг наличия данных, хранится отдельно,
+   * т.к. 0, '', false и null так же являются данными
+   */
+  private isPresent = false;
+
+  /**
+   * Время последнего обновления данных в миллисекундах
+   */
+  public dataUpdatedAt?: number = undefined;
+
+  /**
+   * Источник последнего обновления данных
+   */
+  public source?: DataSource = undefined;
+
+  constructor(observability: DataObservability = 'deep') {
+    makeObservable<DataStorage<TData>, 'internalData' | 'isPresent'>(this, {
+      internalData: observabilityAnnotations[observability],
+      isPresent: observable,
+      dataUpdatedAt: observable,
+      source: observable,
+      hasData: computed,
+      data: computed,
+      setData: action,
+      clear: action,
+    });
   }
 
   /**
    * Флаг, отображающий наличие данных
    */
   public get hasData() {
-    return Boolean(this.internalData);
+    return this.isPresent;
   }
 
   /**
-   * Метод для установки данных
+   * Метод для установки данных,
+   * время обновления можно передать явно, например, для начальных данных
+   */
+  public setData = (
+    value: TData,
+    { updatedAt = Date.now(), source = 'network' }: SetDataParams = {},
+  ) => {
+    this.internalData = replaceEqualDeep(this.internalData, value) as TData;
+    this.isPresent = true;
+    this.dataUpdatedAt = updatedAt;
+    this.source = source;
+  };
+
+  /**
+   * Метод очистки данных
    */
-  public setData = (value: TData) => {
-    this.internalData = value;
+  public clear = () => {
+    this.internalData = undefined;
+    this.isPresent = false;
+    this.dataUpdatedAt = undefined;
+    this.source = undefined;
   };
 
+  /**
+   * Метод вычисления новых данных, если передана функция, она будет вызвана с текущими данными
+   */
+  public resolveData = (dataOrUpdater: DataUpdater<TData>): TData =>
+    typeof dataOrUpdater === 'function'
+      ? (dataOrUpdater as (prevData: TData | undefined) => TData)(
+          this.internalData,
+        )
+      : dataOrUpdater;
+
   /**
    * Геттер данных
    */
@@ -40,15 +174,25 @@ export class DataStorage<TData> {
 /**
  * Фабрика ответственная за создание и хранение экземляров хранилищ
  */
-export class DataStorageFactory extends StorageFactory<DataStorage<unknown>> {
+export class DataStorageFactory extends StorageFactory<
+  DataStorage<unknown>,
+  DataObservability | undefined
+> {
   constructor() {
-    super(() => new DataStorage());
+    super((observability) => new DataStorage(observability));
   }
 
   /**
-   * Фабричный метод получения/создания инстанса хранилища по ключу
+   * Фабричный метод получения/создания инстанса хранилища по ключу,
+   * режим наблюдаемости применяется только при создании хранилища
    */
-  public getStorage = <TData>(keyHash: string) => {
-    return this.getInternalStorage(keyHash) as DataStorage<TData>;
+  public getStorage = <TData>(
+    keyHash: string,
+    observability?: DataObservability,
+  ) => {
+    return this.getInternalStorage(
+      keyHash,
+      observability,
+    ) as DataStorage<TData>;
   };
 }
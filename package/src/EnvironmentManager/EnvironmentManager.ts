@@ -0,0 +1,52 @@
+/**
+ * Подписчик на события окружения
+ */
+export type EnvironmentListener = () => void;
+
+/**
+ * Источник событий окружения по умолчанию, отсутствует вне браузера
+ */
+export const getDefaultEventTarget = (): EventTarget | undefined =>
+  typeof window !== 'undefined' ? window : undefined;
+
+/**
+ * Базовый менеджер событий окружения,
+ * уведомляет подписчиков, когда по одному из событий источника окружение переходит в нужное состояние
+ */
+export abstract class EnvironmentManager {
+  protected constructor(
+    private readonly target: EventTarget | undefined,
+    private readonly eventNames: string[],
+    private readonly checkState: () => boolean,
+  ) {}
+
+  /**
+   * Флаг, обозначающий, что окружение находится в нужном состоянии
+   */
+  protected get isStateReached() {
+    return this.checkState();
+  }
+
+  /**
+   * Метод подписки на переход окружения в нужное состояние, возвращает функцию отписки
+   */
+  public subscribe = (listener: EnvironmentListener) => {
+    const { target, eventNames } = this;
+
+    const handleEvent = () => {
+      if (this.isStateReached) {
+        listener();
+      }
+    };
+
+    eventNames.forEach((eventName) => {
+      target?.addEventListener(eventName, handleEvent);
+    });
+
+    return () => {
+      eventNames.forEach((eventName) => {
+        target?.removeEventListener(eventName, handleEvent);
+      });
+    };
+  };
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PauseTimeoutError } from '../PauseTimeoutError';
+
+import { ExecutionGate } from './ExecutionGate';
+
+describe('ExecutionGate', () => {
+  const getSignal = () => new AbortController().signal;
+
+  it('Без приостановки ожидание завершается сразу', async () => {
+    const gate = new ExecutionGate();
+
+    await expect(gate.wait(getSignal())).resolves.toBeUndefined();
+  });
+
+  it('Ожидающие запросы освобождаются по порядку после возобновления', async () => {
+    const gate = new ExecutionGate();
+    const order: number[] = [];
+
+    gate.pause();
+
+    const promises = [1, 2, 3].map((item) =>
+      gate.wait(getSignal()).then(() => order.push(item)),
+    );
+
+    await Promise.resolve();
+    expect(order).toStrictEqual([]);
+    gate.resume();
+    await Promise.all(promises);
+    expect(order).toStrictEqual([1, 2, 3]);
+    expect(gate.isPaused).toBeFalsy();
+  });
+
+  it('Отмененный запрос убирается из очереди', async () => {
+    const gate = new ExecutionGate();
+    const abortController = new AbortController();
+    const onRelease = vi.fn();
+
+    gate.pause();
+
+    const promise = gate.wait(abortController.signal).then(onRelease);
+
+    abortController.abort('reason');
+    await expect(promise).rejects.toBe('reason');
+    gate.resume();
+    await Promise.resolve();
+    expect(onRelease).not.toBeCalled();
+  });
+
+  it('Обработчик отмены удаляется после возобновления', async () => {
+    const gate = new ExecutionGate();
+    const signal = getSignal();
+    const addListener = vi.spyOn(signal, 'addEventListener');
+    const removeListener = vi.spyOn(signal, 'removeEventListener');
+
+    gate.pause();
+
+    const promise = gate.wait(signal);
+
+    gate.resume();
+    await promise;
+
+    expect(removeListener).toBeCalledWith(
+      'abort',
+      addListener.mock.calls[0][1],
+    );
+  });
+
+  describe('При использовании timeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('Запрос завершается ошибкой, не дождавшись возобновления', async () => {
+      const gate = new ExecutionGate();
+
+      gate.pause({ timeout: 1000 });
+
+      const promise = gate.wait(getSignal());
+
+      vi.advanceTimersByTime(1000);
+      await expect(promise).rejects.toBeInstanceOf(PauseTimeoutError);
+    });
+
+    it('Обработчик отмены удаляется по истечении времени ожидания', async () => {
+      const gate = new ExecutionGate();
+      const signal = getSignal();
+      const addListener = vi.spyOn(signal, 'addEventListener');
+      const removeListener = vi.spyOn(signal, 'removeEventListener');
+
+      gate.pause({ timeout: 1000 });
+
+      const promise = gate.wait(signal);
+
+      vi.advanceTimersByTime(1000);
+      await expect(promise).rejects.toBeInstanceOf(PauseTimeoutError);
+
+      expect(removeListener).toBeCalledWith(
+        'abort',
+        addListener.mock.calls[0][1],
+      );
+    });
+
+    it('Запрос, дождавшийся возобновления, не завершается ошибкой', async () => {
+      const gate = new ExecutionGate();
+
+      gate.pause({ timeout: 1000 });
+
+      const promise = gate.wait(getSignal());
+
+      vi.advanceTimersByTime(500);
+      gate.resume();
+      vi.advanceTimersByTime(1000);
+      await expect(promise).resolves.toBeUndefined();
+    });
+  });
+
+  it('pauseWhile возобновляет запросы после завершения промиса', async () => {
+    const gate = new ExecutionGate();
+    const promise = gate.pauseWhile(Promise.resolve('token'));
+
+    expect(gate.isPaused).toBeTruthy();
+    await expect(promise).resolves.toBe('token');
+    expect(gate.isPaused).toBeFalsy();
+  });
+
+  it('pauseWhile возобновляет запросы после неудачного завершения промиса', async () => {
+    const gate = new ExecutionGate();
+    const promise = gate.pauseWhile(Promise.reject('error'));
+
+    await expect(promise).rejects.toBe('error');
+    expect(gate.isPaused).toBeFalsy();
+  });
+});
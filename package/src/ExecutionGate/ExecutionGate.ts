@@ -0,0 +1,125 @@
+import { action, makeObservable, observable } from 'mobx';
+
+import { PauseTimeoutError } from '../PauseTimeoutError';
+
+export type PauseParams = {
+  /**
+   * Время в миллисекундах, по истечении которого ожидающий запрос завершается ошибкой PauseTimeoutError.
+   * Отсчитывается для каждого запроса с момента постановки в очередь
+   * @default Infinity
+   */
+  timeout?: number;
+};
+
+/**
+ * Запрос, ожидающий возобновления
+ */
+type QueuedExecution = {
+  release: () => void;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Шлюз исполнения запросов, позволяет приостановить все новые запросы,
+ * например, на время обновления токена доступа.
+ * Приостановленные запросы ставятся в очередь и исполняются по порядку после возобновления
+ */
+export class ExecutionGate {
+  /**
+   * Флаг, обозначающий, что новые запросы приостановлены
+   */
+  public isPaused = false;
+
+  /**
+   * Время ожидания возобновления для запросов текущей приостановки
+   */
+  private timeout = Infinity;
+
+  /**
+   * Очередь запросов, ожидающих возобновления
+   */
+  private queue: QueuedExecution[] = [];
+
+  constructor() {
+    makeObservable(this, {
+      isPaused: observable,
+      pause: action,
+      resume: action,
+    });
+  }
+
+  /**
+   * Метод приостановки новых запросов
+   */
+  public pause = ({ timeout = Infinity }: PauseParams = {}) => {
+    this.isPaused = true;
+    this.timeout = timeout;
+  };
+
+  /**
+   * Метод возобновления запросов, ожидающие запросы исполняются в порядке постановки в очередь
+   */
+  public resume = () => {
+    const { queue } = this;
+
+    this.isPaused = false;
+    this.queue = [];
+
+    queue.forEach(({ release, timer }) => {
+      clearTimeout(timer);
+      release();
+    });
+  };
+
+  /**
+   * Метод приостановки новых запросов до завершения промиса,
+   * запросы возобновляются как при успешном, так и при неудачном завершении
+   */
+  public pauseWhile = <TResult>(
+    promise: Promise<TResult>,
+    params?: PauseParams,
+  ) => {
+    this.pause(params);
+
+    return promise.finally(this.resume);
+  };
+
+  /**
+   * Метод ожидания возобновления запросов, если они приостановлены.
+   * При отмене запрос убирается из очереди, а промис завершается с причиной отмены
+   */
+  public wait = (signal: AbortSignal) => {
+    if (!this.isPaused) {
+      return Promise.resolve();
+    }
+
+    let handleAbort = () => {};
+
+    return new Promise<void>((resolve, reject) => {
+      const execution: QueuedExecution = { release: resolve };
+
+      const dequeue = () => {
+        clearTimeout(execution.timer);
+        this.queue = this.queue.filter((item) => item !== execution);
+      };
+
+      if (Number.isFinite(this.timeout)) {
+        execution.timer = setTimeout(() => {
+          dequeue();
+          reject(new PauseTimeoutError());
+        }, this.timeout);
+      }
+
+      handleAbort = () => {
+        dequeue();
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', handleAbort, { once: true });
+      this.queue.push(execution);
+    }).finally(() => {
+      // после возобновления, либо истечения времени ожидания отмена больше не отслеживается
+      signal.removeEventListener('abort', handleAbort);
+    });
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { FocusManager } from './FocusManager';
+
+describe('FocusManager', () => {
+  const createManager = (isFocused = () => true) => {
+    const target = new EventTarget();
+    const manager = new FocusManager({ target, isFocused });
+
+    return { target, manager };
+  };
+
+  it('Подписчик уведомляется о событии focus', () => {
+    const { target, manager } = createManager();
+    const listener = vi.fn();
+
+    manager.subscribe(listener);
+    target.dispatchEvent(new Event('focus'));
+    expect(listener).toBeCalledTimes(1);
+  });
+
+  it('Подписчик уведомляется о событии visibilitychange', () => {
+    const { target, manager } = createManager();
+    const listener = vi.fn();
+
+    manager.subscribe(listener);
+    target.dispatchEvent(new Event('visibilitychange'));
+    expect(listener).toBeCalledTimes(1);
+  });
+
+  it('Подписчик не уведомляется, если страница не в фокусе', () => {
+    const { target, manager } = createManager(() => false);
+    const listener = vi.fn();
+
+    manager.subscribe(listener);
+    target.dispatchEvent(new Event('visibilitychange'));
+    expect(listener).not.toBeCalled();
+    expect(manager.isFocused).toBeFalsy();
+  });
+
+  it('Подписчик не уведомляется после отписки', () => {
+    const { target, manager } = createManager();
+    const listener = vi.fn();
+
+    manager.subscribe(listener)();
+    target.dispatchEvent(new Event('focus'));
+    expect(listener).not.toBeCalled();
+  });
+
+  it('Вне браузера подписка ни на что не влияет', () => {
+    const manager = new FocusManager();
+
+    expect(() => manager.subscribe(vi.fn())()).not.toThrow();
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  EnvironmentManager,
+  getDefaultEventTarget,
+} from '../EnvironmentManager';
+
+export type FocusManagerParams = {
+  /**
+   * Источник событий focus и visibilitychange
+   * @default window
+   */
+  target?: EventTarget;
+  /**
+   * Функция проверки, что страница находится в фокусе
+   * @default страница не скрыта согласно document.visibilityState
+   */
+  isFocused?: () => boolean;
+};
+
+const isDocumentVisible = () =>
+  typeof document === 'undefined' || document.visibilityState !== 'hidden';
+
+/**
+ * Менеджер фокуса, уведомляет подписчиков о возвращении пользователя на страницу
+ */
+export class FocusManager extends EnvironmentManager {
+  constructor({
+    target = getDefaultEventTarget(),
+    isFocused = isDocumentVisible,
+  }: FocusManagerParams = {}) {
+    super(target, ['focus', 'visibilitychange'], isFocused);
+  }
+
+  /**
+   * Флаг, обозначающий, что страница находится в фокусе
+   */
+  public get isFocused() {
+    return this.isStateReached;
+  }
+}
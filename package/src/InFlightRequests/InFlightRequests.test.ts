@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InFlightRequests } from './InFlightRequests';
+
+describe('InFlightRequests', () => {
+  it('Одновременные запросы с одинаковым ключом исполняются один раз', async () => {
+    const sut = new InFlightRequests();
+    const executor = vi.fn(() => Promise.resolve('foo'));
+
+    const results = await Promise.all([
+      sut.execute('foo', executor, new AbortController().signal),
+      sut.execute('foo', executor, new AbortController().signal),
+    ]);
+
+    expect(executor).toBeCalledTimes(1);
+    expect(results).toStrictEqual(['foo', 'foo']);
+  });
+
+  it('Запросы с разными ключами исполняются отдельно', async () => {
+    const sut = new InFlightRequests();
+    const executor = vi.fn(() => Promise.resolve('foo'));
+
+    await Promise.all([
+      sut.execute('foo', executor, new AbortController().signal),
+      sut.execute('bar', executor, new AbortController().signal),
+    ]);
+
+    expect(executor).toBeCalledTimes(2);
+  });
+
+  it('После завершения запроса по ключу исполняется новый запрос', async () => {
+    const sut = new InFlightRequests();
+    const executor = vi.fn(() => Promise.resolve('foo'));
+
+    await sut.execute('foo', executor, new AbortController().signal);
+    await sut.execute('foo', executor, new AbortController().signal);
+    expect(executor).toBeCalledTimes(2);
+  });
+
+  it('Запрос не прерывается, пока его не отменили все потребители', () => {
+    const sut = new InFlightRequests();
+    const executorSignals: AbortSignal[] = [];
+    const executor = (signal: AbortSignal) => {
+      executorSignals.push(signal);
+
+      return new Promise(() => {});
+    };
+    const controllerA = new AbortController();
+    const controllerB = new AbortController();
+
+    sut.execute('foo', executor, controllerA.signal);
+    sut.execute('foo', executor, controllerB.signal);
+    controllerA.abort();
+    expect(executorSignals[0].aborted).toBeFalsy();
+    controllerB.abort();
+    expect(executorSignals[0].aborted).toBeTruthy();
+  });
+
+  it('После отмены всеми потребителями по ключу исполняется новый запрос', () => {
+    const sut = new InFlightRequests();
+    const executor = vi.fn(() => new Promise(() => {}));
+    const controller = new AbortController();
+
+    sut.execute('foo', executor, controller.signal);
+    controller.abort();
+    sut.execute('foo', executor, new AbortController().signal);
+    expect(executor).toBeCalledTimes(2);
+  });
+
+  describe('При заданном интервале дедупликации', () => {
+    const createSut = () => {
+      let now = 0;
+      const sut = new InFlightRequests(() => now);
+      const wait = (ms: number) => {
+        now += ms;
+      };
+
+      return { sut, wait };
+    };
+
+    it('В пределах интервала возвращается результат завершенного запроса', async () => {
+      const { sut, wait } = createSut();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const { signal } = new AbortController();
+
+      await sut.execute('foo', executor, signal, 1000);
+      wait(999);
+      expect(await sut.execute('foo', executor, signal, 1000)).toBe('foo');
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('По истечении интервала исполняется новый запрос', async () => {
+      const { sut, wait } = createSut();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const { signal } = new AbortController();
+
+      await sut.execute('foo', executor, signal, 1000);
+      wait(1000);
+      await sut.execute('foo', executor, signal, 1000);
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Результат ошибочного запроса не переиспользуется', async () => {
+      const { sut } = createSut();
+      const executor = vi.fn(() => Promise.reject('error'));
+      const { signal } = new AbortController();
+
+      await sut.execute('foo', executor, signal, 1000).catch(() => {});
+      await sut.execute('foo', executor, signal, 1000).catch(() => {});
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Забытый результат не переиспользуется', async () => {
+      const { sut } = createSut();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const { signal } = new AbortController();
+
+      await sut.execute('["foo"]', executor, signal, 1000);
+      sut.forget('["foo"]');
+      await sut.execute('["foo"]', executor, signal, 1000);
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Очистка не удаляет результаты в пределах интервала', async () => {
+      const { sut, wait } = createSut();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const { signal } = new AbortController();
+
+      await sut.execute('foo', executor, signal, 1000);
+      wait(999);
+      sut.prune();
+      await sut.execute('foo', executor, signal, 1000);
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('После очистки по истечении интервала исполняется новый запрос', async () => {
+      const { sut, wait } = createSut();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const { signal } = new AbortController();
+
+      await sut.execute('foo', executor, signal, 1000);
+      wait(1000);
+      sut.prune();
+      await sut.execute('foo', executor, signal, 1000);
+      expect(executor).toBeCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Запрос, разделяемый между несколькими потребителями
+ */
+type SharedRequest = {
+  promise: Promise<unknown>;
+  abortController: AbortController;
+  /**
+   * Количество потребителей, еще не отменивших запрос
+   */
+  consumersCount: number;
+};
+
+/**
+ * Успешно завершенный запрос, который может быть переиспользован в течение интервала дедупликации
+ */
+type SettledRequest = {
+  promise: Promise<unknown>;
+  /**
+   * Время окончания интервала дедупликации в миллисекундах
+   */
+  expiresAt: number;
+};
+
+/**
+ * Хранилище текущих запросов,
+ * позволяет разделять один запрос между всеми потребителями с одинаковым ключом,
+ * так что в каждый момент времени по ключу исполняется не более одного запроса
+ */
+export class InFlightRequests {
+  private readonly requests = new Map<string, SharedRequest>();
+
+  private readonly settledRequests = new Map<string, SettledRequest>();
+
+  /**
+   * @param now - источник текущего времени в миллисекундах
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Метод исполнения запроса по ключу,
+   * если по ключу уже исполняется запрос, то возвращается его промис.
+   * Запрос прерывается, только когда его отменили все потребители
+   * @param signal - сигнал отмены потребителя
+   * @param dedupeInterval - интервал в миллисекундах после успешного завершения запроса,
+   * в течение которого вместо нового запроса будет возвращен результат завершенного
+   */
+  public execute = <TResult>(
+    keyHash: string,
+    executor: (signal: AbortSignal) => Promise<TResult>,
+    signal: AbortSignal,
+    dedupeInterval = 0,
+  ) => {
+    const settledPromise = this.getSettledPromise(keyHash);
+
+    if (settledPromise && !this.requests.has(keyHash)) {
+      return settledPromise as Promise<TResult>;
+    }
+
+    const request =
+      this.requests.get(keyHash) ||
+      this.start(keyHash, executor, dedupeInterval);
+
+    request.consumersCount += 1;
+
+    signal.addEventListener('abort', () => {
+      request.consumersCount -= 1;
+
+      if (request.consumersCount === 0) {
+        this.remove(keyHash, request);
+        request.abortController.abort(signal.reason);
+      }
+    });
+
+    return request.promise as Promise<TResult>;
+  };
+
+  /**
+   * Метод удаления завершенных запросов, ключ которых начинается с переданного,
+   * чтобы их результаты больше не переиспользовались
+   */
+  public forget = (keyHashPrefix: string) => {
+    [...this.settledRequests.keys()].forEach((keyHash) => {
+      if (keyHash.startsWith(keyHashPrefix)) {
+        this.settledRequests.delete(keyHash);
+      }
+    });
+  };
+
+  /**
+   * Метод удаления завершенных запросов, интервал дедупликации которых истек
+   */
+  public prune = () => {
+    const now = this.now();
+
+    [...this.settledRequests.entries()].forEach(([keyHash, { expiresAt }]) => {
+      if (expiresAt <= now) {
+        this.settledRequests.delete(keyHash);
+      }
+    });
+  };
+
+  private start = <TResult>(
+    keyHash: string,
+    executor: (signal: AbortSignal) => Promise<TResult>,
+    dedupeInterval: number,
+  ) => {
+    const abortController = new AbortController();
+    const request: SharedRequest = {
+      promise: executor(abortController.signal)
+        .then((result) => {
+          if (dedupeInterval > 0 && !abortController.signal.aborted) {
+            this.settledRequests.set(keyHash, {
+              promise: Promise.resolve(result),
+              expiresAt: this.now() + dedupeInterval,
+            });
+          }
+
+          return result;
+        })
+        .finally(() => this.remove(keyHash, request)),
+      abortController,
+      consumersCount: 0,
+    };
+
+    this.requests.set(keyHash, request);
+
+    return request;
+  };
+
+  /**
+   * Метод получения результата запроса, завершенного в пределах интервала дедупликации
+   */
+  private getSettledPromise = (keyHash: string) => {
+    const settledRequest = this.settledRequests.get(keyHash);
+
+    if (!settledRequest) {
+      return undefined;
+    }
+
+    if (settledRequest.expiresAt <= this.now()) {
+      this.settledRequests.delete(keyHash);
+
+      return undefined;
+    }
+
+    return settledRequest.promise;
+  };
+
+  /**
+   * Метод удаления запроса по ключу,
+   * по ключу уже может исполняться новый запрос, который удалять нельзя
+   */
+  private remove = (keyHash: string, request: SharedRequest) => {
+    if (this.requests.get(keyHash) === request) {
+      this.requests.delete(keyHash);
+    }
+  };
+}
@@ -1,10 +1,10 @@
-import { describe, expect, it, vi } from 'vitest';
-import { when } from 'mobx';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { autorun, observable, runInAction, when } from 'mobx';
 
 import { DataStorage } from '../DataStorage';
 import { StatusStorage } from '../StatusStorage';
 
-import { InfiniteQuery } from './InfiniteQuery';
+import { type InfiniteParams, InfiniteQuery } from './InfiniteQuery';
 
 describe('InfiniteQuery', () => {
   const getDataStorage = <T = unknown[]>() => new DataStorage<T>();
@@ -145,7 +145,11 @@ describe('InfiniteQuery', () => {
       query.sync();
       await when(() => !query.isLoading);
       await when(() => query.error !== undefined);
-      expect(onDefaultError).toBeCalledWith('error');
+
+      expect(onDefaultError).toBeCalledWith('error', {
+        key: [],
+        meta: undefined,
+      });
     });
 
     it('Обработчик ошибки по умолчанию не вызывается при использовании async', async () => {
@@ -227,7 +231,7 @@ describe('InfiniteQuery', () => {
       expect(secondValue !== firstValue).toBeTruthy();
     });
 
-    it('Обращение к data запускает загрузку после invalidate, если enabledAutoFetch включен', async () => {
+    it('Наблюдение за data запускает загрузку после invalidate, если enabledAutoFetch включен', async () => {
       const query = new InfiniteQuery(
         // executor эмулирует постоянно меняющиеся данные
         () => Promise.resolve([Math.random()]),
@@ -238,16 +242,17 @@ describe('InfiniteQuery', () => {
         },
       );
 
-      // эмулируем считывание данных чтобы тригернуть загрузку
-      JSON.stringify(query.data);
-      await when(() => !query.isLoading);
+      // наблюдаем за данными, чтобы тригернуть загрузку
+      const dispose = autorun(() => query.data);
+
+      await when(() => query.isSuccess);
 
       const [firstValue] = query.data!;
 
       query.invalidate();
-      // эмулируем считывание данных чтобы тригернуть загрузку
-      JSON.stringify(query.data);
+      expect(query.isLoading).toBeTruthy();
       await when(() => !query.isLoading);
+      dispose();
 
       const [secondValue] = query.data!;
 
@@ -255,7 +260,7 @@ describe('InfiniteQuery', () => {
       expect(secondValue !== firstValue).toBeTruthy();
     });
 
-    it('Обращение к данным при одновременном вызове fetchMore вызывает только одно исполнение executor', async () => {
+    it('Наблюдение за данными при одновременном вызове fetchMore вызывает только одно исполнение executor', async () => {
       const executorSpy = vi.fn();
       const query = new InfiniteQuery(
         () => {
@@ -270,32 +275,43 @@ describe('InfiniteQuery', () => {
         },
       );
 
-      // эмулируем считывание данных
-      JSON.stringify(query.data);
-      await when(() => !query.isLoading);
+      const dispose = autorun(() => query.data);
+
+      await when(() => query.isSuccess);
+      // перезапрос начнется сам, т.к. за данными наблюдают
       query.invalidate();
-      // эмулируем считывание данных
-      JSON.stringify(query.data);
       query.fetchMore();
       await when(() => !query.isLoading);
+      dispose();
       expect(executorSpy).toBeCalledTimes(2);
     });
   });
 
   describe('При включенном enabledAutoFetch', () => {
-    it('Автоматический запрос данных при обращении к data', async () => {
+    it('Автоматический запрос данных при наблюдении за data', async () => {
       const query = new InfiniteQuery(() => Promise.resolve(['foo']), {
         enabledAutoFetch: true,
         dataStorage: getDataStorage(),
         statusStorage: getStatusStorage(),
       });
+      const dispose = autorun(() => query.data);
 
-      // эмулируем считывание данных
-      JSON.stringify(query.data);
       expect(query.isLoading).toBeTruthy();
+      dispose();
     });
 
-    it('Повторные обращения к data не запускают повторных запросов, при фейле запроса', async () => {
+    it('Однократное обращение к data вне реакций не запускает запрос', () => {
+      const query = new InfiniteQuery(() => Promise.resolve(['foo']), {
+        enabledAutoFetch: true,
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
+      JSON.stringify(query.data);
+      expect(query.isLoading).toBeFalsy();
+    });
+
+    it('Повторное наблюдение за data не запускает повторных запросов, при фейле запроса', async () => {
       const insideExecutor = vi.fn();
       const query = new InfiniteQuery(
         () => {
@@ -310,11 +326,10 @@ describe('InfiniteQuery', () => {
         },
       );
 
-      // эмулируем считывание данных
-      JSON.stringify(query.data);
-      await when(() => !query.isLoading);
-      // эмулируем повторное считывание данных
-      JSON.stringify(query.data);
+      autorun(() => query.data)();
+      await when(() => query.isError);
+      // эмулируем повторное наблюдение за данными
+      autorun(() => query.data)();
       await when(() => !query.isLoading);
       expect(insideExecutor).toBeCalledTimes(1);
     });
@@ -357,6 +372,17 @@ describe('InfiniteQuery', () => {
       expect(query.data).toStrictEqual(['foo', 'foo']);
     });
 
+    it('Время обновления и источник данных обновляются при догрузке', async () => {
+      const { query } = createQuery();
+
+      query.forceUpdate(['bar']);
+      expect(query.dataSource).toBe('forceUpdate');
+      query.fetchMore();
+      await when(() => !query.isLoading);
+      expect(query.dataUpdatedAt).toBeTypeOf('number');
+      expect(query.dataSource).toBe('network');
+    });
+
     it('executor вызывается со счетчиками соответствующими количеству вызова fetchMore + первый sync/async', async () => {
       const { query, insideExecutor } = createQuery();
 
@@ -440,6 +466,66 @@ describe('InfiniteQuery', () => {
     });
   });
 
+  describe('При отмене запроса', () => {
+    const createQuery = () => {
+      const insideExecutor = vi.fn();
+      const onDefaultError = vi.fn();
+      const query = new InfiniteQuery(
+        (params, { signal }) => {
+          insideExecutor(params);
+
+          // первая страница отдается сразу, последующие - только при отмене
+          if (params.offset === 0) {
+            return Promise.resolve(['foo']);
+          }
+
+          return new Promise<string[]>((_, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+          });
+        },
+        {
+          incrementCount: 1,
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          onError: onDefaultError,
+        },
+      );
+
+      return { query, insideExecutor, onDefaultError };
+    };
+
+    it('Отмена fetchMore восстанавливает счетчики', async () => {
+      const { query, insideExecutor } = createQuery();
+
+      await query.async();
+      query.fetchMore();
+      query.cancel();
+      query.fetchMore();
+      expect(insideExecutor).toHaveBeenLastCalledWith({ offset: 1, count: 1 });
+    });
+
+    it('Статусы и данные остаются в состоянии до fetchMore', async () => {
+      const { query } = createQuery();
+
+      await query.async();
+      query.fetchMore();
+      query.cancel();
+      expect(query.isLoading).toBeFalsy();
+      expect(query.isSuccess).toBeTruthy();
+      expect(query.data).toStrictEqual(['foo']);
+    });
+
+    it('Обработчик ошибки по умолчанию не вызывается', async () => {
+      const { query, onDefaultError } = createQuery();
+
+      await query.async();
+      query.fetchMore();
+      query.cancel();
+      await Promise.resolve();
+      expect(onDefaultError).not.toBeCalled();
+    });
+  });
+
   it('Данные синхронизируются при использовании одного dataStorage', async () => {
     const unifiedDataStorage = getDataStorage();
     const unifiedStatusStorage = getStatusStorage();
@@ -709,6 +795,265 @@ describe('InfiniteQuery', () => {
     });
   });
 
+  describe('При политике cache-and-network', () => {
+    it('Async сразу возвращает данные из кеша и обновляет их в фоне', async () => {
+      let counter = 0;
+      const query = new InfiniteQuery<number, unknown, true>(
+        () => {
+          counter++;
+
+          return Promise.resolve([counter]);
+        },
+        {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          backgroundStatusStorage: getStatusStorage(),
+          fetchPolicy: 'cache-and-network',
+        },
+      );
+
+      await query.async();
+
+      const promise = query.async();
+
+      expect(query.isLoading).toBeFalsy();
+      expect(query.background.isLoading).toBeTruthy();
+      await expect(promise).resolves.toStrictEqual([1]);
+      await when(() => !query.background.isLoading);
+      expect(query.data).toStrictEqual([2]);
+    });
+
+    it('Каждое новое наблюдение за data обновляет данные из сети', async () => {
+      const executor = vi.fn(() => Promise.resolve([1]));
+      const query = new InfiniteQuery<number, unknown, true>(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        backgroundStatusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-and-network',
+        enabledAutoFetch: true,
+      });
+
+      const disposeFirst = autorun(() => query.data);
+
+      await when(() => query.isSuccess);
+      disposeFirst();
+
+      const disposeSecond = autorun(() => query.data);
+
+      expect(query.background.isLoading).toBeTruthy();
+      await when(() => !query.background.isLoading);
+      disposeSecond();
+      expect(executor).toBeCalledTimes(2);
+    });
+  });
+
+  describe('При политике cache-only', () => {
+    it('Данные берутся из кеша без запросов', async () => {
+      const dataStorage = getDataStorage<number[]>();
+
+      dataStorage.setData([1]);
+
+      const executor = vi.fn(() => Promise.resolve([2]));
+      const query = new InfiniteQuery(executor, {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-only',
+        enabledAutoFetch: true,
+      });
+
+      query.sync();
+      query.fetchMore();
+      expect(query.data).toStrictEqual([1]);
+      await expect(query.async()).resolves.toStrictEqual([1]);
+      expect(executor).not.toBeCalled();
+    });
+  });
+
+  describe('При политике no-cache', () => {
+    it('Данные запрашиваются при каждом вызове async', async () => {
+      let counter = 0;
+      const query = new InfiniteQuery(
+        () => {
+          counter++;
+
+          return Promise.resolve([counter]);
+        },
+        {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          fetchPolicy: 'no-cache',
+        },
+      );
+
+      await query.async();
+      expect(query.data).toStrictEqual([1]);
+      await query.async();
+      expect(query.data).toStrictEqual([2]);
+    });
+  });
+
+  describe('При использовании enabled', () => {
+    it('Выключенный квери не исполняет запросы', () => {
+      const executor = vi.fn(() => Promise.resolve([1]));
+      const dataStorage = getDataStorage<number[]>();
+
+      dataStorage.setData([1]);
+
+      const query = new InfiniteQuery(executor, {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        enabledAutoFetch: true,
+        enabled: false,
+      });
+
+      query.sync();
+      query.fetchMore();
+      expect(query.data).toStrictEqual([1]);
+      expect(executor).not.toBeCalled();
+      expect(query.isIdle).toBeTruthy();
+    });
+
+    it('Отложенный sync исполняется при включении квери', async () => {
+      const enabledStore = observable({ isEnabled: false });
+      const executor = vi.fn(() => Promise.resolve([1]));
+      const query = new InfiniteQuery(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        enabled: () => enabledStore.isEnabled,
+      });
+
+      query.sync();
+      expect(executor).not.toBeCalled();
+
+      runInAction(() => {
+        enabledStore.isEnabled = true;
+      });
+
+      await when(() => query.isSuccess);
+      expect(query.data).toStrictEqual([1]);
+    });
+  });
+
+  describe('При использовании refetchInterval', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('Опрос перезапрашивает первую страницу, пока за квери наблюдают', async () => {
+      const executor = vi.fn((params: InfiniteParams) =>
+        Promise.resolve([params.offset]),
+      );
+      const query = new InfiniteQuery(executor, {
+        incrementCount: 1,
+        dataStorage: getDataStorage<number[]>(),
+        statusStorage: getStatusStorage(),
+        refetchInterval: 1000,
+      });
+      const unobserve = autorun(() => query.data);
+
+      await query.async();
+      query.fetchMore();
+      await when(() => !query.isLoading);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(executor).toHaveBeenLastCalledWith(
+        { offset: 0, count: 1 },
+        expect.anything(),
+      );
+
+      expect(query.data).toStrictEqual([0]);
+      unobserve();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(executor).toBeCalledTimes(3);
+    });
+
+    it('Опрос останавливается, когда функция интервала возвращает false', async () => {
+      const executor = vi.fn(() => Promise.resolve(['foo']));
+      const query = new InfiniteQuery(executor, {
+        dataStorage: getDataStorage<string[]>(),
+        statusStorage: getStatusStorage(),
+        refetchInterval: (data) => (data ? false : 1000),
+      });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      unobserve();
+      expect(executor).toBeCalledTimes(1);
+    });
+  });
+
+  describe('При использовании placeholderData', () => {
+    it('Данные-заполнитель возвращаются до получения ответа и не записываются в хранилище', async () => {
+      const dataStorage = getDataStorage<number[]>();
+      const query = new InfiniteQuery(() => Promise.resolve([1]), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        placeholderData: [0],
+      });
+
+      expect(query.data).toStrictEqual([0]);
+      expect(query.isPlaceholderData).toBeTruthy();
+      expect(dataStorage.data).toBeUndefined();
+      await query.async();
+      expect(query.data).toStrictEqual([1]);
+      expect(query.isPlaceholderData).toBeFalsy();
+    });
+  });
+
+  describe('При использовании initialData', () => {
+    it('Начальные данные записываются в хранилище без запроса', async () => {
+      const executor = vi.fn(() => Promise.resolve([2]));
+      const query = new InfiniteQuery(executor, {
+        dataStorage: getDataStorage<number[]>(),
+        statusStorage: getStatusStorage(),
+        initialData: () => [1],
+      });
+
+      expect(query.data).toStrictEqual([1]);
+      expect(query.isSuccess).toBeTruthy();
+      await query.async();
+      expect(executor).not.toBeCalled();
+    });
+
+    it('Устаревшие начальные данные перезапрашиваются при наблюдении с нулевым staleTime', async () => {
+      const executor = vi.fn(() => Promise.resolve([2]));
+      const query = new InfiniteQuery(executor, {
+        dataStorage: getDataStorage<number[]>(),
+        statusStorage: getStatusStorage(),
+        initialData: () => [1],
+        staleTime: 0,
+        enabledAutoFetch: true,
+      });
+
+      const dispose = autorun(() => query.data);
+
+      await when(() => query.data?.[0] === 2);
+      dispose();
+      expect(executor).toBeCalledTimes(1);
+    });
+  });
+
+  describe('При сбросе', () => {
+    it('Данные, статусы и пагинация возвращаются в исходное состояние', async () => {
+      const query = new InfiniteQuery(() => Promise.resolve(['foo']), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
+      await query.async();
+      expect(query.isEndReached).toBeTruthy();
+      query.reset();
+      expect(query.data).toBeUndefined();
+      expect(query.isIdle).toBeTruthy();
+      expect(query.isSuccess).toBeFalsy();
+      expect(query.isEndReached).toBeFalsy();
+    });
+  });
+
   describe('При использование forceUpdate', () => {
     const createQuery = () => {
       const onInsideExecutor = vi.fn();
@@ -732,6 +1077,7 @@ describe('InfiniteQuery', () => {
 
       query.forceUpdate(['foo']);
       expect(query.data).toStrictEqual(['foo']);
+      expect(query.dataSource).toBe('forceUpdate');
     });
 
     it('Запрос не происходит', () => {
@@ -748,5 +1094,13 @@ describe('InfiniteQuery', () => {
       expect(query.isSuccess).toBeTruthy();
       expect(query.isError).toBeFalsy();
     });
+
+    it('Данные вычисляются на основе текущих при передаче функции', () => {
+      const { query } = createQuery();
+
+      query.forceUpdate(['foo']);
+      query.forceUpdate((prevData = []) => [...prevData, 'bar']);
+      expect(query.data).toStrictEqual(['foo', 'bar']);
+    });
   });
 });
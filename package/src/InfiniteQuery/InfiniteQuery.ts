@@ -1,10 +1,41 @@
-import { action, computed, makeObservable, observable, when } from 'mobx';
-
-import type { FetchPolicy, QueryBaseActions, Sync, SyncParams } from '../types';
+import {
+  type IReactionDisposer,
+  action,
+  computed,
+  makeObservable,
+  observable,
+  onBecomeObserved,
+  onBecomeUnobserved,
+  reaction,
+  runInAction,
+} from 'mobx';
+
+import type {
+  CacheKey,
+  DataUpdater,
+  Enabled,
+  FetchPolicy,
+  InitialData,
+  InvalidateQueryParams,
+  NetworkMode,
+  OnError,
+  PlaceholderData,
+  QueryBaseActions,
+  QueryExecutorContext,
+  QueryMeta,
+  RefetchInterval,
+  Retry,
+  RetryDelay,
+  Sync,
+} from '../types';
 import { AuxiliaryQuery } from '../AuxiliaryQuery';
-import type { DataStorage } from '../DataStorage';
+import type { DataSource, DataStorage } from '../DataStorage';
 import { QueryContainer } from '../QueryContainer';
 import { type StatusStorage } from '../StatusStorage';
+import { CancelledError } from '../CancelledError';
+import { type FocusManager } from '../FocusManager';
+import { type OnlineManager } from '../OnlineManager';
+import { type ExecutionGate } from '../ExecutionGate';
 
 export const DEFAULT_INFINITE_ITEMS_COUNT = 30;
 
@@ -19,6 +50,7 @@ export type InfiniteParams = {
  */
 export type InfiniteExecutor<TResult> = (
   params: InfiniteParams,
+  context: QueryExecutorContext,
 ) => Promise<Array<TResult>>;
 
 export type InfiniteQueryParams<
@@ -34,11 +66,44 @@ export type InfiniteQueryParams<
   /**
    * Обработчик ошибки, вызываемый по умолчанию
    */
-  onError?: SyncParams<TResult, TError>['onError'];
+  onError?: OnError<TError>;
+  /**
+   * Ключ квери, передается в executor и в обработчик ошибки по умолчанию
+   * @default []
+   */
+  key?: CacheKey[];
   /**
-   * Флаг, отвечающий за автоматический запрос данных при обращении к полю data
+   * Произвольные мета-данные, передаются в executor и в обработчик ошибки по умолчанию
+   */
+  meta?: QueryMeta;
+  /**
+   * Флаг, отвечающий за автоматический запрос данных при наблюдении за полем data
    */
   enabledAutoFetch?: boolean;
+  /**
+   * Флаг доступности запросов, либо функция его вычисления, отслеживаемая mobx.
+   * Пока квери выключен, sync, автоматический запрос и перезапрос после инвалидации не исполняются,
+   * а после включения квери запросит данные самостоятельно
+   * @default true
+   */
+  enabled?: Enabled;
+  /**
+   * Данные-заполнитель, возвращаемые в data, пока в хранилище нет данных,
+   * либо функция их вычисления на основе предыдущих данных.
+   * Предыдущие данные передаются реактивным квери при смене ключа, для отдельного квери они отсутствуют.
+   * Данные-заполнитель не записываются в хранилище
+   */
+  placeholderData?: PlaceholderData<Array<TResult>>;
+  /**
+   * Начальные данные, либо функция их ленивого вычисления.
+   * Записываются в хранилище при создании квери, только если в нем еще нет данных
+   */
+  initialData?: InitialData<Array<TResult>>;
+  /**
+   * Время обновления начальных данных в миллисекундах, по нему вычисляется устаревание начальных данных
+   * @default Date.now()
+   */
+  initialDataUpdatedAt?: number;
   /**
    * Инстанс хранилища основных статусов
    */
@@ -47,8 +112,59 @@ export type InfiniteQueryParams<
    * Политика получения данных.
    * @enum cache-first - данные сначала берутся из кеша, если их нет, тогда идет обращение к сети, ответ записывается в кэш
    * @enum network-only - данные всегда берутся из сети, при этом ответ записывается в кэш
+   * @enum cache-and-network - данные сразу берутся из кеша и одновременно обновляются из сети, статусы обновления записываются в фоновое хранилище
+   * @enum cache-only - данные берутся только из кеша, обращения к сети не происходит
+   * @enum no-cache - данные всегда берутся из сети, при этом ответ не записывается в кэш
    */
   fetchPolicy?: FetchPolicy;
+  /**
+   * Время в миллисекундах, по истечении которого данные считаются устаревшими и будут перезапрошены
+   * @default Infinity
+   */
+  staleTime?: number;
+  /**
+   * Количество повторных попыток запроса после ошибки,
+   * либо предикат, определяющий необходимость повторной попытки
+   * @default 0
+   */
+  retry?: Retry<TError>;
+  /**
+   * Задержка в миллисекундах перед повторной попыткой запроса, либо функция ее вычисления
+   * @default экспоненциальная задержка со случайным разбросом
+   */
+  retryDelay?: RetryDelay<TError>;
+  /**
+   * Интервал периодического перезапроса данных в миллисекундах,
+   * либо функция его вычисления на основе текущих данных, возвращающая false для остановки опроса.
+   * Опрос идет, только пока за квери наблюдают
+   */
+  refetchInterval?: RefetchInterval<Array<TResult>>;
+  /**
+   * Флаг, отвечающий за продолжение периодического перезапроса, пока страница скрыта
+   * @default false
+   */
+  refetchIntervalInBackground?: boolean;
+  /**
+   * Менеджер фокуса, по которому периодический перезапрос приостанавливается на скрытой странице
+   */
+  focusManager?: FocusManager;
+  /**
+   * Режим работы с сетью.
+   * @enum online - запросы исполняются только при наличии сети, без сети они приостанавливаются до ее восстановления
+   * @enum always - запросы исполняются независимо от наличия сети
+   * @enum offlineFirst - первая попытка запроса исполняется всегда, а повторные попытки без сети приостанавливаются до ее восстановления
+   * @default 'online'
+   */
+  networkMode?: NetworkMode;
+  /**
+   * Менеджер сети, по которому запросы приостанавливаются до восстановления сети.
+   * Без менеджера сеть считается доступной всегда
+   */
+  onlineManager?: OnlineManager;
+  /**
+   * Шлюз исполнения, по которому новые запросы приостанавливаются до возобновления
+   */
+  executionGate?: ExecutionGate;
   /**
    * Инстанс хранилища данных
    */
@@ -63,6 +179,10 @@ export type InfiniteQueryParams<
    * Колбэк, вызываемый при успешном завершении запроса, подразумевается использование, для подтверждения валидности данных, чтобы квери не был удален из памяти
    */
   submitValidity?: () => void;
+  /**
+   * Колбэк, вызываемый при инвалидации данных, подразумевается использование для сброса переиспользуемых результатов запросов
+   */
+  onInvalidate?: () => void;
 };
 
 /**
@@ -104,13 +224,28 @@ export class InfiniteQuery<
   /**
    * Обработчик ошибки, вызываемый по умолчанию
    */
-  private defaultOnError?: SyncParams<TResult, TError>['onError'];
+  private defaultOnError?: OnError<TError>;
 
   /**
-   * Флаг, отвечающий за автоматический запрос данных при обращении к полю data
+   * Ключ квери
+   */
+  private readonly key: CacheKey[];
+
+  /**
+   * Произвольные мета-данные, переданные при создании
+   */
+  public readonly meta?: QueryMeta;
+
+  /**
+   * Флаг, отвечающий за автоматический запрос данных при наблюдении за полем data
    */
   private enabledAutoFetch?: boolean;
 
+  /**
+   * Данные-заполнитель, либо функция их вычисления
+   */
+  private readonly placeholderData?: PlaceholderData<Array<TResult>>;
+
   /**
    * Стандартное поведение политики кеширования
    */
@@ -121,17 +256,43 @@ export class InfiniteQuery<
    */
   private readonly submitValidity?: () => void;
 
+  /**
+   * Колбэк, вызываемый при инвалидации данных
+   */
+  private readonly onInvalidate?: () => void;
+
+  /**
+   * Диспоузер реакции автоматического запроса данных
+   */
+  private disposeAutoFetch?: IReactionDisposer;
+
   constructor(
     private readonly executor: InfiniteExecutor<TResult>,
     {
       incrementCount = DEFAULT_INFINITE_ITEMS_COUNT,
       onError,
+      key = [],
+      meta,
       enabledAutoFetch,
+      enabled,
+      placeholderData,
+      initialData,
+      initialDataUpdatedAt,
       fetchPolicy,
+      staleTime,
+      retry,
+      retryDelay,
+      refetchInterval,
+      refetchIntervalInBackground,
+      focusManager,
+      networkMode,
+      onlineManager,
+      executionGate,
       dataStorage,
       statusStorage,
       backgroundStatusStorage = null,
       submitValidity,
+      onInvalidate,
     }: InfiniteQueryParams<TResult, TError, TIsBackground>,
   ) {
     super(
@@ -140,30 +301,94 @@ export class InfiniteQuery<
       new AuxiliaryQuery<Array<TResult>, TError>(
         statusStorage,
         backgroundStatusStorage,
+        {
+          staleTime,
+          retry,
+          retryDelay,
+          enabled,
+          networkMode,
+          onlineManager,
+          executionGate,
+        },
       ),
     );
 
     this.storage = dataStorage;
     this.incrementCount = incrementCount;
     this.defaultOnError = onError;
+    this.key = key;
+    this.meta = meta;
     this.enabledAutoFetch = enabledAutoFetch;
+    this.placeholderData = placeholderData;
     this.defaultFetchPolicy = fetchPolicy;
     this.submitValidity = submitValidity;
+    this.onInvalidate = onInvalidate;
 
     makeObservable(this as ThisType<this>, {
       data: computed,
+      isEnabled: computed,
+      isPlaceholderData: computed,
+      dataUpdatedAt: computed,
+      dataSource: computed,
+      placeholder: computed,
+      shouldAutoFetch: computed,
+      isActive: computed,
+      observedFieldsCount: computed,
       infiniteExecutor: computed,
       forceUpdate: action,
+      reset: action,
       async: action,
       sync: action,
       fetchMore: action,
       submitSuccess: action,
       isEndReached: observable,
     });
+
+    this.seedInitialData(initialData, initialDataUpdatedAt);
+
+    this.auxiliary.trackObservers(this, [
+      'data',
+      'isLoading',
+      'isError',
+      'isSuccess',
+      'error',
+    ]);
+
+    // запрос данных начинается, только пока за data наблюдают
+    onBecomeObserved(this, 'data', this.startAutoFetch);
+    onBecomeUnobserved(this, 'data', this.stopAutoFetch);
+    this.auxiliary.watchStaleness(() => this.storage.dataUpdatedAt);
+
+    // cache-only квери не обращается к сети, поэтому не опрашивает ее
+    if (refetchInterval !== undefined && !this.isCacheOnly) {
+      this.auxiliary.watchPolling(
+        () =>
+          typeof refetchInterval === 'function'
+            ? refetchInterval(this.storage.data)
+            : refetchInterval,
+        () => this.proceedSync(),
+        { inBackground: refetchIntervalInBackground, focusManager },
+      );
+    }
   }
 
-  private get isNetworkOnly() {
-    return this.defaultFetchPolicy === 'network-only';
+  /**
+   * Флаг политик, при которых запрос исполняется при каждом вызове, независимо от наличия данных
+   */
+  private get isAlwaysFetch() {
+    return (
+      this.defaultFetchPolicy === 'network-only' ||
+      this.defaultFetchPolicy === 'no-cache' ||
+      this.defaultFetchPolicy === 'cache-and-network'
+    );
+  }
+
+  private get isCacheOnly() {
+    return this.defaultFetchPolicy === 'cache-only';
+  }
+
+  private get isCacheAndNetwork() {
+    return this.defaultFetchPolicy === 'cache-and-network';
   }
 
   /**
@@ -173,13 +398,16 @@ export class InfiniteQuery<
     result: TResult[],
     onSuccess?: (res: TResult[]) => void,
     isIncrement?: boolean,
+    source: DataSource = 'network',
   ) => {
     onSuccess?.(result);
 
     if (isIncrement && this.storage.hasData) {
-      this.storage.setData([...this.storage.data!, ...result]);
+      this.storage.setData([...(this.storage.data as TResult[]), ...result], {
+        source,
+      });
     } else {
-      this.storage.setData(result);
+      this.storage.setData(result, { source });
       this.submitValidity?.();
     }
 
@@ -196,31 +424,174 @@ export class InfiniteQuery<
   };
 
   /**
-   * Форс метод для установки данных
+   * Форс метод для установки данных,
+   * вместо данных можно передать функцию, вычисляющую новые данные на основе текущих
    */
-  public forceUpdate = (data: TResult[]) => {
+  public forceUpdate = (dataOrUpdater: DataUpdater<TResult[]>) => {
+    const data = this.storage.resolveData(dataOrUpdater);
+
     this.offset = 0;
     this.isEndReached = false;
     this.auxiliary.submitSuccess();
-    this.submitSuccess(data);
+    this.submitSuccess(data, undefined, false, 'forceUpdate');
   };
 
   /**
    * Метод для обогащения параметров текущими значениями для инфинити
    */
-  private get infiniteExecutor(): () => Promise<Array<TResult>> {
-    return () =>
-      this.executor({
-        offset: this.offset,
-        count: this.incrementCount,
+  private get infiniteExecutor(): (
+    signal: AbortSignal,
+  ) => Promise<Array<TResult>> {
+    return (signal) =>
+      this.executor(
+        {
+          offset: this.offset,
+          count: this.incrementCount,
+        },
+        { key: this.key, signal, meta: this.meta },
+      );
+  }
+
+  /**
+   * Метод, запоминающий текущее состояние пагинации,
+   * возвращает колбэк для его восстановления при отмене запроса
+   */
+  private savePagination = () => {
+    const { offset, isEndReached } = this;
+
+    return action(() => {
+      this.offset = offset;
+      this.isEndReached = isEndReached;
+    });
+  };
+
+  /**
+   * Метод отмены текущего запроса.
+   * Статусы и пагинация возвращаются в состояние до запроса, ответ не попадает в хранилище,
+   * а обработчики ошибок не вызываются
+   */
+  public cancel = () => {
+    this.auxiliary.cancel();
+  };
+
+  /**
+   * Метод остановки периодического перезапроса данных,
+   * вызывается при удалении квери из кеша, после вызова квери больше не опрашивает сеть
+   */
+  public stopPolling = () => {
+    this.auxiliary.stopPolling();
+  };
+
+  /**
+   * Метод сброса в исходное состояние: текущий запрос отменяется,
+   * данные, статусы в хранилищах и пагинация очищаются
+   */
+  public reset = () => {
+    this.auxiliary.reset();
+    this.storage.clear();
+    this.offset = 0;
+    this.isEndReached = false;
+  };
+
+  /**
+   * Количество наблюдаемых полей квери, т.е. data и статусов
+   */
+  public get observedFieldsCount() {
+    return this.auxiliary.observedFieldsCount;
+  }
+
+  /**
+   * Флаг, обозначающий, что за квери кто-то наблюдает.
+   * Активные квери перезапрашивают данные при инвалидации и не удаляются из кеша
+   */
+  public get isActive() {
+    return this.auxiliary.isActive;
+  }
+
+  /**
+   * Флаг, обозначающий, что квери включен и может исполнять запросы
+   */
+  public get isEnabled() {
+    return this.auxiliary.isEnabled;
+  }
+
+  /**
+   * Метод записи начальных данных в хранилище, если в нем еще нет данных
+   */
+  private seedInitialData = (
+    initialData?: InitialData<Array<TResult>>,
+    initialDataUpdatedAt?: number,
+  ) => {
+    if (initialData === undefined || this.storage.hasData) {
+      return;
+    }
+
+    const data =
+      typeof initialData === 'function'
+        ? (initialData as () => Array<TResult> | undefined)()
+        : initialData;
+
+    if (data === undefined) {
+      return;
+    }
+
+    runInAction(() => {
+      this.storage.setData(data, {
+        updatedAt: initialDataUpdatedAt,
+        source: 'initial',
       });
+
+      this.auxiliary.submitSuccess();
+    });
+  };
+
+  /**
+   * Вычисленные данные-заполнитель
+   */
+  private get placeholder() {
+    return typeof this.placeholderData === 'function'
+      ? (
+          this.placeholderData as (
+            previousData: Array<TResult> | undefined,
+          ) => Array<TResult> | undefined
+        )(undefined)
+      : this.placeholderData;
+  }
+
+  /**
+   * Время последнего обновления данных в миллисекундах
+   */
+  public get dataUpdatedAt() {
+    return this.storage.dataUpdatedAt;
+  }
+
+  /**
+   * Источник последнего обновления данных
+   */
+  public get dataSource() {
+    return this.storage.source;
+  }
+
+  /**
+   * Флаг, обозначающий, что data содержит данные-заполнитель, а не ответ запроса
+   */
+  public get isPlaceholderData() {
+    return !this.storage.hasData && this.placeholder !== undefined;
+  }
+
+  /**
+   * Данные хранилища, либо данные-заполнитель при их отсутствии
+   */
+  private get currentData() {
+    return this.isPlaceholderData ? this.placeholder : this.storage.data;
   }
 
   /**
    * Метод для инвалидации данных
    */
-  public invalidate = () => {
-    this.auxiliary.invalidate();
+  public invalidate = (params?: InvalidateQueryParams) => {
+    this.onInvalidate?.();
+    this.auxiliary.invalidate(params);
   };
 
   /**
@@ -228,16 +599,32 @@ export class InfiniteQuery<
    */
   public fetchMore = () => {
     // если мы еще не достигли предела
-    if (!this.isEndReached && this.storage.data) {
+    if (
+      this.isEnabled &&
+      !this.isCacheOnly &&
+      !this.isEndReached &&
+      this.storage.hasData
+    ) {
+      const restorePagination = this.savePagination();
+
       // прибавляем к офсету число запрашиваемых элементов
       this.offset += this.incrementCount;
 
       // запускаем запрос с последними параметрами, и флагом необходимости инкремента
       this.auxiliary
-        .getUnifiedPromise(this.infiniteExecutor, (resData) => {
-          this.submitSuccess(resData, undefined, true);
-        })
-        .catch((e) => this.defaultOnError?.(e));
+        .getUnifiedPromise(
+          this.infiniteExecutor,
+          (resData) => {
+            this.submitSuccess(resData, undefined, true);
+          },
+          restorePagination,
+        )
+        .catch((e) => {
+          // отмена запроса не является ошибкой
+          if (!(e instanceof CancelledError)) {
+            this.defaultOnError?.(e, { key: this.key, meta: this.meta });
+          }
+        });
     }
   };
 
@@ -245,9 +632,24 @@ export class InfiniteQuery<
    * Синхронный метод получения данных
    */
   public sync: Sync<Array<TResult>, TError> = (params) => {
+    if (!this.isEnabled) {
+      // запрос исполнится, как только квери будет включен
+      this.auxiliary.deferUntilEnabled(() => this.sync(params));
+
+      return;
+    }
+
+    if (this.isCacheOnly) {
+      if (this.storage.hasData) {
+        params?.onSuccess?.(this.storage.data as Array<TResult>);
+      }
+
+      return;
+    }
+
     const isInstanceAllow = !(this.isLoading || this.isSuccess);
 
-    if (this.isNetworkOnly || this.auxiliary.isInvalid || isInstanceAllow) {
+    if (this.isAlwaysFetch || this.auxiliary.isStale || isInstanceAllow) {
       this.proceedSync(params);
     }
   };
@@ -259,18 +661,29 @@ export class InfiniteQuery<
     onSuccess,
     onError,
   } = {}) => {
+    const restorePagination = this.savePagination();
+
     this.offset = 0;
     this.isEndReached = false;
 
     this.auxiliary
-      .getUnifiedPromise(this.infiniteExecutor, (resData) => {
-        this.submitSuccess(resData, onSuccess);
-      })
+      .getUnifiedPromise(
+        this.infiniteExecutor,
+        (resData) => {
+          this.submitSuccess(resData, onSuccess);
+        },
+        restorePagination,
+      )
       .catch((e: TError) => {
+        // отмена запроса не является ошибкой
+        if (e instanceof CancelledError) {
+          return;
+        }
+
         if (onError) {
           onError(e);
         } else {
-          this.defaultOnError?.(e);
+          this.defaultOnError?.(e, { key: this.key, meta: this.meta });
         }
       });
   };
@@ -282,39 +695,107 @@ export class InfiniteQuery<
    * предполагается, что нужно будет самостоятельно обрабатывать ошибку
    */
   public async = () => {
-    if (!this.isNetworkOnly && this.isSuccess && !this.auxiliary.isInvalid) {
-      return Promise.resolve(this.storage.data!);
+    if (this.isCacheOnly) {
+      return Promise.resolve(this.storage.data as Array<TResult>);
+    }
+
+    if (this.isCacheAndNetwork && this.isSuccess) {
+      // отдаем данные из кеша сразу, а обновляем их в фоне
+      this.proceedSync();
+
+      return Promise.resolve(this.storage.data as Array<TResult>);
+    }
+
+    if (!this.isAlwaysFetch && this.isSuccess && !this.auxiliary.isStale) {
+      return Promise.resolve(this.storage.data as Array<TResult>);
     }
 
+    const restorePagination = this.savePagination();
+
     this.offset = 0;
     this.isEndReached = false;
 
     return this.auxiliary.getUnifiedPromise(
       this.infiniteExecutor,
       this.submitSuccess,
+      restorePagination,
     );
   };
 
   /**
-   * Вычисляемое свойство, содержащее реактивные данные,
-   * благодаря mobx, при изменении isInvalid, свойство будет вычисляться заново,
-   * следовательно, стриггерится условие невалидности,
-   * и начнется запрос, в результате которого, данные обновятся
+   * Флаг необходимости автоматического запроса данных,
+   * отслеживается реакцией, пока за data наблюдают
    */
-  public get data() {
+  private get shouldAutoFetch() {
+    // выключенный квери не запрашивает данные,
+    // а после включения флаг будет вычислен заново и запрос начнется
+    if (this.isCacheOnly || !this.isEnabled) {
+      return false;
+    }
+
     const shouldSync =
       this.enabledAutoFetch &&
       !this.isSuccess &&
       !this.isLoading &&
       !this.isError;
 
-    if (this.auxiliary.isInvalid || shouldSync) {
-      // т.к. при вызове апдейта, изменяются флаги, на которые подписан data,
-      // нужно вызывать этот экшн асинхронно
-      when(() => true, this.proceedSync);
-    }
+    return this.auxiliary.shouldRefetch || shouldSync;
+  }
+
+  /**
+   * Метод запуска автоматического запроса данных, вызывается, когда за data начинают наблюдать.
+   * Благодаря mobx, при изменении isInvalid, либо при устаревании данных, флаг будет вычислен заново,
+   * и начнется запрос, в результате которого, данные обновятся
+   */
+  private startAutoFetch = () => {
+    let isObservationStart = true;
+
+    this.disposeAutoFetch = reaction(
+      () => this.shouldAutoFetch,
+      (shouldFetch) => {
+        const shouldRefetchStale =
+          isObservationStart && this.shouldRefetchOnObserve;
+
+        isObservationStart = false;
 
-    // возвращаем имеющиеся данные
-    return this.storage.data;
+        if (shouldFetch || shouldRefetchStale) {
+          this.proceedSync();
+        }
+      },
+      { fireImmediately: true },
+    );
+  };
+
+  /**
+   * Флаг необходимости перезапроса данных при начале наблюдения.
+   * При staleTime: 0 устаревание не учитывается в shouldAutoFetch, чтобы запросы не зацикливались,
+   * поэтому устаревшие данные, например начальные, перезапрашиваются один раз при начале наблюдения.
+   * cache-and-network квери обновляет данные из кеша при каждом начале наблюдения
+   */
+  private get shouldRefetchOnObserve() {
+    return (
+      this.enabledAutoFetch &&
+      !this.isCacheOnly &&
+      this.isEnabled &&
+      this.isSuccess &&
+      !this.isLoading &&
+      (this.auxiliary.isStale || this.isCacheAndNetwork)
+    );
+  }
+
+  /**
+   * Метод остановки автоматического запроса данных, вызывается, когда за data перестают наблюдать
+   */
+  private stopAutoFetch = () => {
+    this.disposeAutoFetch?.();
+    this.disposeAutoFetch = undefined;
+  };
+
+  /**
+   * Содержит реактивные данные,
+   * пока за ними наблюдают, данные запрашиваются автоматически
+   */
+  public get data() {
+    return this.currentData;
   }
 }
@@ -1,5 +1,9 @@
-import { describe, expect, it, vi } from 'vitest';
-import { when } from 'mobx';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { autorun, isObservable, observable, runInAction, when } from 'mobx';
+
+import { FocusManager } from '../FocusManager';
+import { OnlineManager } from '../OnlineManager';
+import { Query } from '../Query';
 
 import { MobxQuery } from './MobxQuery';
 
@@ -94,6 +98,121 @@ describe('MobxQuery', () => {
       expect(queryA).toBe(queryB);
     });
 
+    it('Квери создаются разные при нулевом интервале дедупликации', () => {
+      const mobxQuery = new MobxQuery({ dedupeInterval: 0 });
+      const createQuery = () =>
+        mobxQuery.createQuery(['foo'], () => Promise.resolve('foo'), {
+          fetchPolicy: 'network-only',
+        });
+
+      expect(createQuery()).not.toBe(createQuery());
+    });
+
+    describe('При заданном интервале дедупликации', () => {
+      const createDedupedMobx = () => {
+        let now = 0;
+        const mobxQuery = new MobxQuery({
+          dedupeInterval: 1000,
+          now: () => now,
+        });
+        const wait = (ms: number) => {
+          now += ms;
+        };
+
+        return { mobxQuery, wait };
+      };
+
+      it('Квери создаются те же самые в пределах интервала', () => {
+        const { mobxQuery, wait } = createDedupedMobx();
+        const createQuery = () =>
+          mobxQuery.createQuery(['foo'], () => Promise.resolve('foo'), {
+            fetchPolicy: 'network-only',
+          });
+
+        const queryA = createQuery();
+
+        wait(999);
+        expect(createQuery()).toBe(queryA);
+      });
+
+      it('Квери создаются разные по истечении интервала', () => {
+        const { mobxQuery, wait } = createDedupedMobx();
+        const createQuery = () =>
+          mobxQuery.createQuery(['foo'], () => Promise.resolve('foo'), {
+            fetchPolicy: 'network-only',
+          });
+
+        const queryA = createQuery();
+
+        wait(1000);
+        expect(createQuery()).not.toBe(queryA);
+      });
+
+      it('Запрос в пределах интервала использует результат завершенного запроса', async () => {
+        const { mobxQuery, wait } = createDedupedMobx();
+        const executor = vi.fn(() => Promise.resolve('foo'));
+        const query = mobxQuery.createQuery(['foo'], executor, {
+          fetchPolicy: 'network-only',
+        });
+
+        await query.async();
+        wait(500);
+
+        const anotherQuery = mobxQuery.createQuery(['foo'], executor, {
+          fetchPolicy: 'network-only',
+        });
+
+        await anotherQuery.async();
+        await query.async();
+        expect(executor).toBeCalledTimes(1);
+        wait(1000);
+        await query.async();
+        expect(executor).toBeCalledTimes(2);
+      });
+
+      it('Инвалидация в пределах интервала приводит к запросу актуальных данных', async () => {
+        const mobxQuery = new MobxQuery({ dedupeInterval: 5000 });
+        let serverData = 'v1';
+        const query = mobxQuery.createQuery(
+          ['k'],
+          () => Promise.resolve(serverData),
+          { fetchPolicy: 'network-only' },
+        );
+
+        await query.async();
+        serverData = 'v2';
+        await mobxQuery.invalidate({ queryKey: ['k'] }, { refetchType: 'all' });
+        expect(query.data).toBe('v2');
+        expect(query.isStale).toBe(false);
+      });
+
+      it('Инвалидация самого квери приводит к запросу актуальных данных', async () => {
+        const { mobxQuery } = createDedupedMobx();
+        let serverData = 'v1';
+        const query = mobxQuery.createQuery(
+          ['k'],
+          () => Promise.resolve(serverData),
+          { fetchPolicy: 'network-only' },
+        );
+
+        await query.async();
+        serverData = 'v2';
+        query.invalidate();
+        expect(await query.async()).toBe('v2');
+      });
+
+      it('Интервал не влияет на запросы cache-first квери', async () => {
+        const { mobxQuery } = createDedupedMobx();
+        const executor = vi.fn(() => Promise.resolve('foo'));
+        const query = mobxQuery.createQuery(['foo'], executor);
+
+        await query.async();
+        mobxQuery.invalidate(['foo']);
+        await query.async();
+        expect(executor).toBeCalledTimes(2);
+      });
+    });
+
     it('Квери создаются разные, если создаются с паузой', async () => {
       vi.setSystemTime('2022-02-10T00:00:00.000Z');
 
@@ -131,12 +250,122 @@ describe('MobxQuery', () => {
 
       await query.async();
       mobxQuery.invalidate(['foo']);
-      JSON.stringify(query.data);
+      autorun(() => query.data)();
       await when(() => !query.isLoading);
       expect(executorSpy).toBeCalledTimes(2);
     });
   });
 
+  describe('При fetchPolicy="no-cache"', () => {
+    it('Ответ не попадает в общий кеш', async () => {
+      const mobxQuery = new MobxQuery();
+      const cachedQuery = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('cached'),
+      );
+
+      await cachedQuery.async();
+
+      const query = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('fresh'),
+        { fetchPolicy: 'no-cache' },
+      );
+
+      await query.async();
+      expect(query.data).toBe('fresh');
+      expect(cachedQuery.data).toBe('cached');
+      expect(mobxQuery.getQueryData(['foo'])).toBe('cached');
+    });
+
+    it('Квери создаются разные при нулевом интервале дедупликации', () => {
+      const mobxQuery = new MobxQuery({ dedupeInterval: 0 });
+      const executor = () => Promise.resolve('foo');
+      const queryA = mobxQuery.createQuery(['foo'], executor, {
+        fetchPolicy: 'no-cache',
+      });
+      const queryB = mobxQuery.createQuery(['foo'], executor, {
+        fetchPolicy: 'no-cache',
+      });
+
+      expect(queryA).not.toBe(queryB);
+    });
+  });
+
+  describe('При fetchPolicy="cache-and-network"', () => {
+    it('Квери сразу отдает данные из кеша и обновляет их в фоне', async () => {
+      const mobxQuery = new MobxQuery();
+      let counter = 0;
+      const executor = () => {
+        counter++;
+
+        return Promise.resolve(counter);
+      };
+
+      await mobxQuery.createQuery(['foo'], executor).async();
+
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        fetchPolicy: 'cache-and-network',
+      });
+      const promise = query.async();
+
+      expect(query.isLoading).toBeFalsy();
+      expect(query.isSuccess).toBeTruthy();
+      await expect(promise).resolves.toBe(1);
+      await when(() => query.data === 2);
+      expect(mobxQuery.getQueryData(['foo'])).toBe(2);
+    });
+
+    it('Фоновые статусы квери доступны без isBackground', async () => {
+      const mobxQuery = new MobxQuery();
+
+      await mobxQuery.createQuery(['foo'], () => Promise.resolve(1)).async();
+
+      const query = mobxQuery.createQuery(['foo'], () => Promise.resolve(2), {
+        fetchPolicy: 'cache-and-network',
+      });
+      // тип background выводится из политики, поэтому проверка на null не требуется
+      const { background } = query;
+
+      query.sync();
+      expect(background.isLoading).toBeTruthy();
+      await when(() => !background.isLoading);
+      expect(background.isSuccess).toBeTruthy();
+    });
+
+    it('Фоновые статусы квери доступны при политике всего сервиса', async () => {
+      const mobxQuery = new MobxQuery({ fetchPolicy: 'cache-and-network' });
+
+      await mobxQuery.createQuery(['foo'], () => Promise.resolve(1)).async();
+
+      const query = mobxQuery.createQuery(['foo'], () => Promise.resolve(2));
+      // тип background выводится из политики сервиса, поэтому проверка на null не требуется
+      const { background } = query;
+
+      query.sync();
+      expect(background.isLoading).toBeTruthy();
+      await when(() => !background.isLoading);
+      expect(background.isSuccess).toBeTruthy();
+    });
+  });
+
+  describe('При fetchPolicy="cache-only"', () => {
+    it('Квери берет данные из кеша без запроса при использовании политики всего сервиса', async () => {
+      const mobxQuery = new MobxQuery({
+        fetchPolicy: 'cache-only',
+        enabledAutoFetch: true,
+      });
+      const executor = vi.fn(() => Promise.resolve('bar'));
+
+      mobxQuery.setQueryData(['foo'], 'foo');
+
+      const query = mobxQuery.createQuery(['foo'], executor);
+
+      expect(query.data).toBe('foo');
+      await expect(query.async()).resolves.toBe('foo');
+      expect(executor).not.toBeCalled();
+    });
+  });
+
   describe('При вызове инвалидации', async () => {
     const createQueries = async () => {
       const mobxQuery = new MobxQuery();
@@ -198,8 +427,8 @@ describe('MobxQuery', () => {
       } = await createQueries();
 
       mobxQuery.invalidate(['user']);
-      // дергаем дату у всех сторов, чтобы тригернуть загрузку
-      JSON.stringify([queryAsc.data, queryDesc.data, queryUser.data]);
+      // наблюдаем за данными всех сторов, чтобы тригернуть загрузку
+      autorun(() => [queryAsc.data, queryDesc.data, queryUser.data])();
       // проверяем что загрузка началась только в сторе пользователя
       expect(spyExecutorAsc).toBeCalledTimes(1);
       expect(spyExecutorDesc).toBeCalledTimes(1);
@@ -218,21 +447,21 @@ describe('MobxQuery', () => {
       } = await createQueries();
 
       mobxQuery.invalidate([{ direction: 'asc' }]);
-      // дергаем дату у всех сторов, чтобы тригернуть загрузку
-      JSON.stringify([queryAsc.data, queryDesc.data, queryUser.data]);
+      // наблюдаем за данными всех сторов, чтобы тригернуть загрузку
+      autorun(() => [queryAsc.data, queryDesc.data, queryUser.data])();
       // ожидаем что загрузка началась только в сторе с direction: "asc"
       expect(spyExecutorAsc).toBeCalledTimes(2);
       expect(spyExecutorDesc).toBeCalledTimes(1);
       expect(spyExecutorUser).toBeCalledTimes(1);
     });
 
-    it('Запрос инвалидации для неактивного стора не запускается, пока мы не обратимся к данным', async () => {
+    it('Запрос инвалидации для неактивного стора не запускается, пока мы не начнем наблюдать за данными', async () => {
       const { queryUser, mobxQuery, spyExecutorUser } = await createQueries();
 
       mobxQuery.invalidate(['user']);
       expect(spyExecutorUser).toBeCalledTimes(1);
-      // дергаем дату, чтобы тригернуть загрузку
-      JSON.stringify(queryUser.data);
+      // наблюдаем за данными, чтобы тригернуть загрузку
+      autorun(() => queryUser.data)();
       //  проверяем что загрузка началась,
       expect(spyExecutorUser).toBeCalledTimes(2);
     });
@@ -258,8 +487,8 @@ describe('MobxQuery', () => {
       const { query, mobxQuery, spyExecutor } = await createQuery();
 
       mobxQuery.invalidate(['foo']);
-      // эмулируем чтение data
-      JSON.stringify(query.data);
+      // эмулируем наблюдение за data
+      autorun(() => query.data)();
       expect(spyExecutor).toBeCalledTimes(1);
     });
 
@@ -267,85 +496,1305 @@ describe('MobxQuery', () => {
       const { query, mobxQuery, spyExecutor } = await createQuery();
 
       mobxQuery.invalidate([['foo', 'bar']]);
-      // эмулируем чтение data, чтобы тригернуть загрузку
-      JSON.stringify(query.data);
+      // наблюдаем за data, чтобы тригернуть загрузку
+      autorun(() => query.data)();
       expect(spyExecutor).toBeCalledTimes(2);
     });
   });
 
-  it('invalidateQueries вызывает инвалидацию сразу всех квери', async () => {
-    const mobxQuery = new MobxQuery();
-    const spyExecutor = vi.fn();
-    const queryFoo = mobxQuery.createQuery([['foo']], () => {
-      spyExecutor();
+  describe('При инвалидации по фильтру', () => {
+    const createQueries = async () => {
+      const mobxQuery = new MobxQuery();
+      const keys = [['user'], ['user', 42], ['user', 43], ['orders', 'user']];
+      const queries = keys.map((key) =>
+        mobxQuery.createQuery(key, () => Promise.resolve(key)),
+      );
 
-      return Promise.resolve('data');
+      await Promise.all(queries.map((query) => query.async()));
+
+      return { mobxQuery, queries };
+    };
+
+    const getStaleFlags = (queries: { isStale: boolean }[]) =>
+      queries.map((query) => query.isStale);
+
+    it('Инвалидируются квери, ключ которых начинается с переданного', async () => {
+      const { mobxQuery, queries } = await createQueries();
+
+      mobxQuery.invalidate({ queryKey: ['user'] });
+      expect(getStaleFlags(queries)).toStrictEqual([true, true, true, false]);
     });
 
-    const queryBar = mobxQuery.createQuery([['bar']], () => {
-      spyExecutor();
+    it('Инвалидируется только квери с точно совпадающим ключом при exact=true', async () => {
+      const { mobxQuery, queries } = await createQueries();
 
-      return Promise.resolve('data');
+      mobxQuery.invalidate({ queryKey: ['user', 42], exact: true });
+      expect(getStaleFlags(queries)).toStrictEqual([false, true, false, false]);
     });
 
-    // добавляем данные
-    await queryFoo.async();
-    await queryBar.async();
-    //запускаем массовую инвалидацию
-    mobxQuery.invalidateQueries();
-    // снова запускаем загрузку в обоих квери
-    await queryFoo.async();
-    await queryBar.async();
-    expect(spyExecutor).toBeCalledTimes(4);
+    it('Инвалидируются квери, подходящие под предикат', async () => {
+      const { mobxQuery, queries } = await createQueries();
+      const predicate = vi.fn((_, key) => key.includes(43));
+
+      mobxQuery.invalidate({ queryKey: ['user'], predicate });
+      expect(getStaleFlags(queries)).toStrictEqual([false, false, true, false]);
+      expect(predicate).toBeCalledWith(queries[2], ['user', 43]);
+    });
+
+    it('invalidateQueries инвалидирует только квери, подходящие под фильтр', async () => {
+      const { mobxQuery, queries } = await createQueries();
+
+      mobxQuery.invalidateQueries({ queryKey: ['orders'] });
+      expect(getStaleFlags(queries)).toStrictEqual([false, false, false, true]);
+    });
+
+    it('cancelQueries отменяет запросы квери, подходящих под фильтр', () => {
+      const mobxQuery = new MobxQuery();
+      const userQuery = mobxQuery.createQuery(['user', 42], () =>
+        Promise.resolve('foo'),
+      );
+      const ordersQuery = mobxQuery.createQuery(['orders', 'user'], () =>
+        Promise.resolve('bar'),
+      );
+
+      userQuery.sync();
+      ordersQuery.sync();
+      mobxQuery.cancelQueries({ queryKey: ['user'] });
+      expect(userQuery.isLoading).toBeFalsy();
+      expect(ordersQuery.isLoading).toBeTruthy();
+    });
   });
 
-  it('Автозапрос данных вызывается при enabledAutoFetch=true для всего сервиса', async () => {
-    const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+  describe('При ожидании инвалидации', () => {
+    const createQueries = async () => {
+      const mobxQuery = new MobxQuery();
+      const activeExecutor = vi.fn().mockResolvedValue('foo');
+      const inactiveExecutor = vi.fn().mockResolvedValue('bar');
+      const activeQuery = mobxQuery.createQuery(['foo', 1], activeExecutor);
+      const inactiveQuery = mobxQuery.createQuery(['foo', 2], inactiveExecutor);
 
-    const query = mobxQuery.createQuery([['foo']], () => {
-      return Promise.resolve('data');
+      await Promise.all([activeQuery.async(), inactiveQuery.async()]);
+
+      const dispose = autorun(() => activeQuery.data);
+
+      activeExecutor.mockResolvedValue('baz');
+
+      return {
+        mobxQuery,
+        activeQuery,
+        inactiveQuery,
+        activeExecutor,
+        inactiveExecutor,
+        dispose,
+      };
+    };
+
+    it('Промис завершается после перезапроса активных квери', async () => {
+      const { mobxQuery, activeQuery, inactiveExecutor, dispose } =
+        await createQueries();
+
+      await mobxQuery.invalidate({ queryKey: ['foo'] });
+      expect(activeQuery.data).toBe('baz');
+      expect(activeQuery.isLoading).toBeFalsy();
+      expect(inactiveExecutor).toBeCalledTimes(1);
+      dispose();
     });
 
-    // эмулируем обращение к data
-    JSON.stringify(query.data);
-    expect(query.isLoading).toBeTruthy();
+    it('Неактивные квери перезапрашиваются при refetchType=all', async () => {
+      const { mobxQuery, inactiveQuery, inactiveExecutor, dispose } =
+        await createQueries();
+
+      inactiveExecutor.mockResolvedValue('qux');
+
+      await mobxQuery.invalidateQueries(
+        { queryKey: ['foo'] },
+        { refetchType: 'all' },
+      );
+
+      expect(inactiveExecutor).toBeCalledTimes(2);
+      expect(inactiveQuery.isLoading).toBeFalsy();
+      expect(inactiveQuery.data).toBe('qux');
+      dispose();
+    });
+
+    it('Неактивные квери не перезапрашиваются при refetchType=none', async () => {
+      const { mobxQuery, inactiveQuery, inactiveExecutor, dispose } =
+        await createQueries();
+
+      await mobxQuery.invalidate(
+        { queryKey: ['foo'] },
+        { refetchType: 'none' },
+      );
+
+      expect(inactiveExecutor).toBeCalledTimes(1);
+      expect(inactiveQuery.isStale).toBeTruthy();
+      dispose();
+    });
+
+    it('Наблюдаемые квери с автоматическим запросом не перезапрашиваются при refetchType=none', async () => {
+      const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+      const executor = vi.fn().mockResolvedValue('foo');
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const dispose = autorun(() => query.data);
+
+      await when(() => query.isSuccess);
+      await mobxQuery.invalidate(['foo'], { refetchType: 'none' });
+      await Promise.resolve();
+      expect(executor).toBeCalledTimes(1);
+      expect(query.isStale).toBeTruthy();
+      dispose();
+    });
+
+    it('Помеченный устаревшим при refetchType=none квери перезапрашивается при следующем запросе', async () => {
+      const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+      const executor = vi.fn().mockResolvedValue('foo');
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const dispose = autorun(() => query.data);
+
+      await when(() => query.isSuccess);
+      await mobxQuery.invalidate(['foo'], { refetchType: 'none' });
+      executor.mockResolvedValue('bar');
+      await query.async();
+      expect(executor).toBeCalledTimes(2);
+      expect(query.data).toBe('bar');
+      expect(query.isStale).toBeFalsy();
+      dispose();
+    });
+
+    it('Квери, за статусами которого наблюдают, считается активным', async () => {
+      const { mobxQuery, inactiveQuery, inactiveExecutor, dispose } =
+        await createQueries();
+      const disposeStatus = autorun(() => inactiveQuery.isLoading);
+
+      await mobxQuery.invalidate({ queryKey: ['foo'] });
+      expect(inactiveExecutor).toBeCalledTimes(2);
+      disposeStatus();
+      dispose();
+    });
+
+    it('Ошибка перезапроса не приводит к ошибке инвалидации', async () => {
+      const { mobxQuery, activeQuery, activeExecutor, dispose } =
+        await createQueries();
+
+      activeExecutor.mockRejectedValue('error');
+      await mobxQuery.invalidate(['foo']);
+      expect(activeQuery.isError).toBeTruthy();
+      dispose();
+    });
   });
 
-  it('Автозапрос данных не вызывается при enabledAutoFetch=false в фабричном методе и при enabledAutoFetch=true для всего сервиса', async () => {
-    const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+  describe('При использовании enabled', () => {
+    it('Зависимый квери запрашивает данные после получения данных основного квери', async () => {
+      const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+      const userQuery = mobxQuery.createQuery(['user'], () =>
+        Promise.resolve({ orgId: 1 }),
+      );
+      const orgExecutor = vi.fn(() => Promise.resolve('org'));
+      const orgQuery = mobxQuery.createQuery(['org'], orgExecutor, {
+        enabled: () => Boolean(userQuery.data?.orgId),
+      });
 
-    const query = mobxQuery.createQuery(
-      [['foo']],
-      () => Promise.resolve('data'),
-      {
-        enabledAutoFetch: false,
-      },
-    );
+      const dispose = autorun(() => orgQuery.data);
 
-    // эмулируем обращение к data
-    JSON.stringify(query.data);
-    expect(query.isLoading).toBeFalsy();
+      expect(orgExecutor).not.toBeCalled();
+      await when(() => orgQuery.isSuccess);
+      dispose();
+      expect(orgQuery.data).toBe('org');
+      expect(orgExecutor).toBeCalledTimes(1);
+    });
+
+    it('Выключенный квери не перезапрашивается при инвалидации', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        enabled: false,
+      });
+
+      await mobxQuery.invalidateQueries(
+        { queryKey: ['foo'] },
+        { refetchType: 'all' },
+      );
+
+      expect(executor).not.toBeCalled();
+      expect(query.isIdle).toBeTruthy();
+    });
   });
 
-  it('Создаваемый квери по умолчанию не использует background', () => {
-    const mobxQuery = new MobxQuery();
+  describe('При использовании реактивных квери', () => {
+    it('Реактивный квери переключается на закешированный квери нового ключа', async () => {
+      const mobxQuery = new MobxQuery();
+      const filter = observable({ page: 1 });
+      const reactiveQuery = mobxQuery.createReactiveQuery(
+        () => ['list', filter.page],
+        ([, page]) =>
+          () =>
+            Promise.resolve(`page ${page}`),
+      );
 
-    const query = mobxQuery.createQuery([['foo']], () =>
-      Promise.resolve('foo'),
-    );
+      await reactiveQuery.async();
 
-    expect(query.background).toBeNull();
+      runInAction(() => {
+        filter.page = 2;
+      });
+
+      await reactiveQuery.async();
+      expect(reactiveQuery.data).toBe('page 2');
+
+      expect(reactiveQuery.query).toBe(
+        mobxQuery.createQuery(['list', 2], () => Promise.resolve('')),
+      );
+    });
+
+    it('Реактивный инфинит квери использует данные кеша по ключу', async () => {
+      const mobxQuery = new MobxQuery();
+      const reactiveQuery = mobxQuery.createReactiveInfiniteQuery(
+        () => ['list'],
+        () => () => Promise.resolve(['foo']),
+      );
+
+      await reactiveQuery.async();
+
+      expect(
+        mobxQuery.getQueryData(['list'], { isInfinite: true }),
+      ).toStrictEqual(['foo']);
+    });
   });
 
-  it('Создаваемый квери использует background при передаче флага isBackground:true', () => {
-    const mobxQuery = new MobxQuery();
+  describe('При использовании initialData', () => {
+    it('Начальные данные записываются в общий кеш', () => {
+      const mobxQuery = new MobxQuery();
 
-    const query = mobxQuery.createQuery(
-      [['foo']],
-      () => Promise.resolve('foo'),
-      { isBackground: true },
-    );
+      mobxQuery.createQuery(['foo'], () => Promise.resolve('bar'), {
+        initialData: 'initial',
+      });
 
-    expect(query.background).not.toBeNull();
+      expect(mobxQuery.getQueryData(['foo'])).toBe('initial');
+    });
+
+    it('Начальные данные не перезаписывают данные общего кеша', async () => {
+      const mobxQuery = new MobxQuery();
+
+      await mobxQuery
+        .createQuery(['foo'], () => Promise.resolve('bar'))
+        .async();
+
+      const query = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('bar'),
+        { initialData: 'initial', fetchPolicy: 'network-only' },
+      );
+
+      expect(query.data).toBe('bar');
+    });
+  });
+
+  describe('При использовании select', () => {
+    const selectLength = (data: string) => data.length;
+
+    it('Квери с разными select создаются разные и используют общие данные', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const selectedQuery = mobxQuery.createQuery(['foo'], executor, {
+        select: selectLength,
+      });
+
+      expect(selectedQuery).not.toBe(query);
+      await query.async();
+      expect(selectedQuery.data).toBe(3);
+      expect(mobxQuery.getQueryData(['foo'])).toBe('foo');
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Квери с одним и тем же select создаются те же самые', () => {
+      const mobxQuery = new MobxQuery();
+      const executor = () => Promise.resolve('foo');
+
+      expect(
+        mobxQuery.createQuery(['foo'], executor, { select: selectLength }),
+      ).toBe(
+        mobxQuery.createQuery(['foo'], executor, { select: selectLength }),
+      );
+    });
+
+    it('Квери с select не создают новых записей в кеше для каждой функции', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const createQuery = () =>
+        mobxQuery.createQuery(['foo'], executor, {
+          select: (data) => data.length,
+        });
+      const queryA = createQuery();
+      const queryB = createQuery();
+
+      await queryA.async();
+      queryA.invalidate();
+      expect(queryB.isStale).toBeTruthy();
+      expect(mobxQuery.createQuery(['foo'], executor).isStale).toBeTruthy();
+    });
+
+    it('select применяется к data каждого вызова отдельно', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = () => Promise.resolve('foo');
+      const lengthQuery = mobxQuery.createQuery(['foo'], executor, {
+        select: selectLength,
+      });
+      const upperQuery = mobxQuery.createQuery(['foo'], executor, {
+        select: (data) => data.toUpperCase(),
+      });
+
+      await lengthQuery.async();
+      expect(lengthQuery).toBeInstanceOf(Query);
+      expect(lengthQuery.data).toBe(3);
+      expect(upperQuery.data).toBe('FOO');
+    });
+
+    it('Наблюдение за data квери с select запускает автоматический запрос', async () => {
+      const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+      const query = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('foo'),
+        { select: selectLength },
+      );
+      const dispose = autorun(() => query.data);
+
+      await when(() => query.data === 3);
+      dispose();
+      expect(query.isSuccess).toBeTruthy();
+    });
+
+    it('Преобразование не вычисляется повторно, пока исходные данные не изменились', async () => {
+      const mobxQuery = new MobxQuery();
+      const select = vi.fn((data: string) => data.toUpperCase());
+      const query = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('foo'),
+        { select },
+      );
+
+      const dispose = autorun(() => query.data);
+
+      await query.async();
+      query.invalidate();
+      await query.async();
+      expect(query.data).toBe('FOO');
+      dispose();
+      expect(select).toBeCalledTimes(1);
+    });
+
+    it('Данные-заполнитель преобразуются через select', () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('foo'),
+        { placeholderData: 'placeholder', select: selectLength },
+      );
+
+      expect(query.data).toBe(11);
+    });
+  });
+
+  describe('При использовании observability', () => {
+    it('Данные по умолчанию конвертируются в observable', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve({ name: 'foo' }),
+      );
+
+      await query.async();
+      expect(isObservable(query.data)).toBeTruthy();
+    });
+
+    it('Режим наблюдаемости квери приоритетнее режима по умолчанию', async () => {
+      const mobxQuery = new MobxQuery({ observability: 'deep' });
+      const data = { name: 'foo' };
+      const executor = () => Promise.resolve(data);
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        observability: 'ref',
+      });
+
+      await query.async();
+      expect(query.data).toBe(data);
+    });
+
+    it('Режим наблюдаемости по умолчанию применяется при установке данных в кеш', () => {
+      const mobxQuery = new MobxQuery({ observability: 'ref' });
+      const data = { name: 'foo' };
+
+      mobxQuery.setQueryData(['foo'], data);
+      expect(mobxQuery.getQueryData(['foo'])).toBe(data);
+    });
+  });
+
+  describe('При использовании refetchOnFocus и refetchOnReconnect', () => {
+    const createEnvironmentMobx = (
+      params: { refetchOnFocus?: boolean; refetchOnReconnect?: boolean } = {
+        refetchOnFocus: true,
+        refetchOnReconnect: true,
+      },
+    ) => {
+      const target = new EventTarget();
+      let time = 0;
+      const mobxQuery = new MobxQuery({
+        ...params,
+        staleTime: 0,
+        focusManager: new FocusManager({ target, isFocused: () => true }),
+        onlineManager: new OnlineManager({ target, isOnline: () => true }),
+        now: () => time,
+      });
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const passTime = (ms: number) => {
+        time += ms;
+      };
+      const emit = (eventName: string) =>
+        target.dispatchEvent(new Event(eventName));
+
+      return { mobxQuery, executor, passTime, emit };
+    };
+
+    it('Устаревший активный квери перезапрашивается при возвращении на страницу', async () => {
+      const { mobxQuery, executor, emit } = createEnvironmentMobx();
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const dispose = autorun(() => query.data);
+
+      await query.async();
+      emit('visibilitychange');
+      expect(executor).toBeCalledTimes(2);
+      dispose();
+    });
+
+    it('Устаревший активный квери перезапрашивается при восстановлении сети', async () => {
+      const { mobxQuery, executor, emit } = createEnvironmentMobx();
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const dispose = autorun(() => query.data);
+
+      await query.async();
+      emit('online');
+      expect(executor).toBeCalledTimes(2);
+      dispose();
+    });
+
+    it('Неактивный квери не перезапрашивается', async () => {
+      const { mobxQuery, executor, emit } = createEnvironmentMobx();
+      const query = mobxQuery.createQuery(['foo'], executor);
+
+      await query.async();
+      emit('focus');
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Квери с актуальными данными не перезапрашивается', async () => {
+      const { mobxQuery, executor, emit } = createEnvironmentMobx();
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        staleTime: Infinity,
+      });
+      const dispose = autorun(() => query.data);
+
+      await query.async();
+      emit('focus');
+      expect(executor).toBeCalledTimes(1);
+      dispose();
+    });
+
+    it('Повторные события в течение интервала игнорируются', async () => {
+      const { mobxQuery, executor, emit, passTime } = createEnvironmentMobx();
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const dispose = autorun(() => query.data);
+
+      await query.async();
+      emit('focus');
+      await when(() => !query.isLoading);
+      emit('visibilitychange');
+      expect(executor).toBeCalledTimes(2);
+      passTime(1000);
+      emit('focus');
+      expect(executor).toBeCalledTimes(3);
+      dispose();
+    });
+
+    it('Параметр квери приоритетнее значения по умолчанию', async () => {
+      const { mobxQuery, executor, emit } = createEnvironmentMobx({});
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        refetchOnFocus: true,
+      });
+      const disabledQuery = mobxQuery.createQuery(['bar'], executor);
+      const dispose = autorun(() => [query.data, disabledQuery.data]);
+
+      await Promise.all([query.async(), disabledQuery.async()]);
+      emit('focus');
+      emit('online');
+      expect(executor).toBeCalledTimes(3);
+      dispose();
+    });
+
+    it('После destroy квери не перезапрашиваются по событиям окружения', async () => {
+      const { mobxQuery, executor, emit } = createEnvironmentMobx();
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const dispose = autorun(() => query.data);
+
+      await query.async();
+      mobxQuery.destroy();
+      emit('focus');
+      emit('online');
+      expect(executor).toBeCalledTimes(1);
+      dispose();
+    });
+  });
+
+  describe('При использовании refetchInterval', () => {
+    // переустанавливаем фейковые таймеры, т.к. для всего набора подменяется только Date
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    it('Опрос приостанавливается на скрытой странице по менеджеру фокуса MobxQuery', async () => {
+      const target = new EventTarget();
+      let isFocused = true;
+      const mobxQuery = new MobxQuery({
+        focusManager: new FocusManager({ target, isFocused: () => isFocused }),
+      });
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        refetchInterval: 1000,
+      });
+      const dispose = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      isFocused = false;
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(executor).toBeCalledTimes(1);
+      isFocused = true;
+      target.dispatchEvent(new Event('focus'));
+      expect(executor).toBeCalledTimes(2);
+      dispose();
+    });
+
+    it('Опрос удаленного квери останавливается, даже если за ним наблюдают', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        refetchInterval: 1000,
+      });
+      const dispose = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      mobxQuery.removeQueries({ queryKey: ['foo'] });
+      await vi.advanceTimersByTimeAsync(5000);
+      dispose();
+      expect(executor).toBeCalledTimes(1);
+    });
+  });
+
+  describe('При использовании networkMode', () => {
+    const createOfflineMobx = (
+      params: { networkMode?: 'online' | 'always' } = {},
+    ) => {
+      const target = new EventTarget();
+      let isOnline = false;
+      const mobxQuery = new MobxQuery({
+        ...params,
+        onlineManager: new OnlineManager({ target, isOnline: () => isOnline }),
+      });
+      const goOnline = () => {
+        isOnline = true;
+        target.dispatchEvent(new Event('online'));
+      };
+
+      return { mobxQuery, goOnline };
+    };
+
+    it('Без сети квери и мутации приостанавливаются до ее восстановления', async () => {
+      const { mobxQuery, goOnline } = createOfflineMobx();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const mutation = mobxQuery.createMutation(executor);
+
+      query.sync();
+      mutation.sync();
+      expect(executor).not.toBeCalled();
+      expect(query.isPaused).toBeTruthy();
+      expect(mutation.isPaused).toBeTruthy();
+      expect(mobxQuery.getQueryState(['foo'])?.isPaused).toBeTruthy();
+      goOnline();
+      await when(() => query.isSuccess && mutation.isSuccess);
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Режим по умолчанию применяется к квери и мутациям', () => {
+      const { mobxQuery } = createOfflineMobx({ networkMode: 'always' });
+      const executor = vi.fn(() => Promise.resolve('foo'));
+
+      mobxQuery.createQuery(['foo'], executor).sync();
+      mobxQuery.createMutation(executor).sync();
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Режим конкретного квери переопределяет режим по умолчанию', () => {
+      const { mobxQuery } = createOfflineMobx();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor, {
+        networkMode: 'always',
+      });
+
+      query.sync();
+      expect(executor).toBeCalledTimes(1);
+    });
+  });
+
+  describe('При приостановке запросов', () => {
+    it('Новые запросы квери и мутаций исполняются по порядку после возобновления', async () => {
+      const mobxQuery = new MobxQuery();
+      const order: string[] = [];
+      const createExecutor = (name: string) => () => {
+        order.push(name);
+
+        return Promise.resolve(name);
+      };
+      const query = mobxQuery.createQuery(['foo'], createExecutor('query'));
+      const mutation = mobxQuery.createMutation(createExecutor('mutation'));
+
+      mobxQuery.pause();
+      mutation.sync();
+      query.sync();
+      expect(mobxQuery.isPaused).toBeTruthy();
+      expect(query.isPaused).toBeTruthy();
+      expect(mutation.isPaused).toBeTruthy();
+      expect(order).toStrictEqual([]);
+      mobxQuery.resume();
+      await when(() => query.isSuccess && mutation.isSuccess);
+      expect(order).toStrictEqual(['mutation', 'query']);
+    });
+
+    it('Запросы возобновляются после завершения промиса pauseWhile', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const refreshToken = Promise.resolve('token');
+
+      mobxQuery.pauseWhile(refreshToken);
+      query.sync();
+      expect(executor).not.toBeCalled();
+      await refreshToken;
+      await when(() => query.isSuccess);
+      expect(executor).toBeCalledTimes(1);
+      expect(mobxQuery.isPaused).toBeFalsy();
+    });
+
+    it('Уже исполняемые запросы не приостанавливаются', () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      query.sync();
+      mobxQuery.pause();
+      expect(query.isLoading).toBeTruthy();
+      expect(query.isPaused).toBeFalsy();
+      mobxQuery.resume();
+    });
+  });
+
+  describe('При сбросе и удалении квери', () => {
+    const createQueries = async () => {
+      const mobxQuery = new MobxQuery();
+      const userQuery = mobxQuery.createQuery(['user'], () =>
+        Promise.resolve('user'),
+      );
+      const ordersQuery = mobxQuery.createQuery(['orders'], () =>
+        Promise.resolve('orders'),
+      );
+
+      await Promise.all([userQuery.async(), ordersQuery.async()]);
+
+      return { mobxQuery, userQuery, ordersQuery };
+    };
+
+    it('resetQueries очищает данные, оставляя квери в кеше', async () => {
+      const { mobxQuery, userQuery, ordersQuery } = await createQueries();
+
+      mobxQuery.resetQueries({ queryKey: ['user'] });
+      expect(userQuery.data).toBeUndefined();
+      expect(userQuery.isIdle).toBeTruthy();
+      expect(ordersQuery.data).toBe('orders');
+
+      expect(
+        mobxQuery.createQuery(['user'], () => Promise.resolve('user')),
+      ).toBe(userQuery);
+    });
+
+    it('removeQueries очищает данные и удаляет квери из кеша', async () => {
+      const { mobxQuery, userQuery } = await createQueries();
+
+      mobxQuery.removeQueries({ queryKey: ['user'] });
+      expect(userQuery.data).toBeUndefined();
+      expect(mobxQuery.getQueryState(['user'])).toBeUndefined();
+
+      expect(
+        mobxQuery.createQuery(['user'], () => Promise.resolve('user')),
+      ).not.toBe(userQuery);
+    });
+
+    it('removeQueries отменяет текущий запрос, и его ответ не попадает в кеш', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['user'], () =>
+        Promise.resolve('user'),
+      );
+      const promise = query.async();
+
+      mobxQuery.removeQueries(['user']);
+      await expect(promise).rejects.toThrow();
+      expect(query.data).toBeUndefined();
+      expect(mobxQuery.getQueryData(['user'])).toBeUndefined();
+    });
+
+    it('clear удаляет все квери и данные, установленные через setQueryData', async () => {
+      const { mobxQuery, userQuery, ordersQuery } = await createQueries();
+
+      mobxQuery.setQueryData(['settings'], 'settings');
+      mobxQuery.clear();
+      expect(userQuery.data).toBeUndefined();
+      expect(ordersQuery.data).toBeUndefined();
+      expect(mobxQuery.getQueryData(['settings'])).toBeUndefined();
+    });
+  });
+
+  describe('При одновременных запросах квери с одинаковыми данными', () => {
+    it('Квери с разными политиками исполняют один запрос', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const cacheQuery = mobxQuery.createQuery(['foo'], executor);
+      const networkQuery = mobxQuery.createQuery(['foo'], executor, {
+        fetchPolicy: 'network-only',
+      });
+
+      await Promise.all([cacheQuery.async(), networkQuery.async()]);
+      expect(executor).toBeCalledTimes(1);
+      expect(networkQuery.isSuccess).toBeTruthy();
+    });
+
+    it('Обычный и фоновый квери исполняют один запрос', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo'], executor);
+      const backgroundQuery = mobxQuery.createQuery(['foo'], executor, {
+        isBackground: true,
+      });
+
+      await Promise.all([query.async(), backgroundQuery.async()]);
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Инфинит квери исполняют отдельные запросы для разных параметров', async () => {
+      const mobxQuery = new MobxQuery();
+      const executor = vi.fn(() => Promise.resolve(Array(30).fill('foo')));
+      const query = mobxQuery.createInfiniteQuery(['foo'], executor);
+      const networkQuery = mobxQuery.createInfiniteQuery(['foo'], executor, {
+        fetchPolicy: 'network-only',
+      });
+
+      await Promise.all([query.async(), networkQuery.async()]);
+      expect(executor).toBeCalledTimes(1);
+      query.fetchMore();
+      await when(() => !query.isLoading);
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Отмена одного из квери не прерывает общий запрос', async () => {
+      const mobxQuery = new MobxQuery();
+      const signals: AbortSignal[] = [];
+      const executor = vi.fn(({ signal }) => {
+        signals.push(signal);
+
+        return Promise.resolve('foo');
+      });
+      const cacheQuery = mobxQuery.createQuery(['foo'], executor);
+      const networkQuery = mobxQuery.createQuery(['foo'], executor, {
+        fetchPolicy: 'network-only',
+      });
+      const cachePromise = cacheQuery.async();
+
+      networkQuery.sync();
+      networkQuery.cancel();
+      expect(signals[0].aborted).toBeFalsy();
+      expect(await cachePromise).toBe('foo');
+    });
+  });
+
+  it('cancelQueries отменяет запросы квери с пересекающимися ключами', () => {
+    const mobxQuery = new MobxQuery();
+    const executor = () => new Promise<string>(() => {});
+    const queryFoo = mobxQuery.createQuery(['foo'], executor);
+    const queryBar = mobxQuery.createQuery(['bar'], executor);
+
+    queryFoo.sync();
+    queryBar.sync();
+    mobxQuery.cancelQueries(['foo']);
+    expect(queryFoo.isLoading).toBeFalsy();
+    expect(queryBar.isLoading).toBeTruthy();
+  });
+
+  it('invalidateQueries вызывает инвалидацию сразу всех квери', async () => {
+    const mobxQuery = new MobxQuery();
+    const spyExecutor = vi.fn();
+    const queryFoo = mobxQuery.createQuery([['foo']], () => {
+      spyExecutor();
+
+      return Promise.resolve('data');
+    });
+
+    const queryBar = mobxQuery.createQuery([['bar']], () => {
+      spyExecutor();
+
+      return Promise.resolve('data');
+    });
+
+    // добавляем данные
+    await queryFoo.async();
+    await queryBar.async();
+    //запускаем массовую инвалидацию
+    mobxQuery.invalidateQueries();
+    // снова запускаем загрузку в обоих квери
+    await queryFoo.async();
+    await queryBar.async();
+    expect(spyExecutor).toBeCalledTimes(4);
+  });
+
+  it('Автозапрос данных вызывается при enabledAutoFetch=true для всего сервиса', async () => {
+    const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+
+    const query = mobxQuery.createQuery([['foo']], () => {
+      return Promise.resolve('data');
+    });
+
+    // эмулируем наблюдение за data
+    autorun(() => query.data)();
+    expect(query.isLoading).toBeTruthy();
+  });
+
+  it('Автозапрос данных не вызывается при enabledAutoFetch=false в фабричном методе и при enabledAutoFetch=true для всего сервиса', async () => {
+    const mobxQuery = new MobxQuery({ enabledAutoFetch: true });
+
+    const query = mobxQuery.createQuery(
+      [['foo']],
+      () => Promise.resolve('data'),
+      {
+        enabledAutoFetch: false,
+      },
+    );
+
+    // эмулируем наблюдение за data
+    autorun(() => query.data)();
+    expect(query.isLoading).toBeFalsy();
+  });
+
+  it('Квери использует staleTime, переданный для всего сервиса', async () => {
+    const mobxQuery = new MobxQuery({ staleTime: 0 });
+    const query = mobxQuery.createQuery([['foo']], () =>
+      Promise.resolve('foo'),
+    );
+
+    await query.async();
+    expect(query.isStale).toBeTruthy();
+  });
+
+  it('staleTime фабричного метода приоритетнее staleTime для всего сервиса', async () => {
+    const mobxQuery = new MobxQuery({ staleTime: 0 });
+    const query = mobxQuery.createQuery(
+      [['foo']],
+      () => Promise.resolve('foo'),
+      { staleTime: Infinity },
+    );
+
+    await query.async();
+    expect(query.isStale).toBeFalsy();
+  });
+
+  it('Квери и мутации используют retry, переданный для всего сервиса', async () => {
+    const mobxQuery = new MobxQuery({ retry: 1, retryDelay: 0 });
+    const executorSpy = vi.fn(() => Promise.reject('error'));
+    const query = mobxQuery.createQuery([['foo']], executorSpy);
+    const mutation = mobxQuery.createMutation(executorSpy);
+
+    await query.async().catch(() => {});
+    await mutation.async().catch(() => {});
+    expect(executorSpy).toBeCalledTimes(4);
+  });
+
+  describe('При использовании контекста executor', () => {
+    it('Executor квери получает исходный ключ и мета-данные', async () => {
+      const mobxQuery = new MobxQuery();
+      const executorSpy = vi.fn(() => Promise.resolve('foo'));
+      const query = mobxQuery.createQuery(['foo', { id: 1 }], executorSpy, {
+        meta: { screen: 'list' },
+      });
+
+      await query.async();
+
+      expect(executorSpy).toBeCalledWith({
+        key: ['foo', { id: 1 }],
+        signal: expect.any(AbortSignal),
+        meta: { screen: 'list' },
+      });
+    });
+
+    it('Executor инфинит квери получает исходный ключ и мета-данные', async () => {
+      const mobxQuery = new MobxQuery();
+      const executorSpy = vi.fn(() => Promise.resolve(['foo']));
+      const query = mobxQuery.createInfiniteQuery(['foo'], executorSpy, {
+        meta: { screen: 'list' },
+      });
+
+      await query.async();
+
+      expect(executorSpy).toBeCalledWith(expect.anything(), {
+        key: ['foo'],
+        signal: expect.any(AbortSignal),
+        meta: { screen: 'list' },
+      });
+    });
+
+    it('Обработчик ошибки сервиса получает ключ и мета-данные квери', async () => {
+      const onError = vi.fn();
+      const mobxQuery = new MobxQuery({ onError });
+      const query = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.reject('error'),
+        { meta: { screen: 'list' } },
+      );
+
+      query.sync();
+      await vi.waitFor(() => expect(onError).toBeCalled());
+
+      expect(onError).toBeCalledWith('error', {
+        key: ['foo'],
+        meta: { screen: 'list' },
+      });
+    });
+
+    it('Обработчик ошибки сервиса получает мета-данные мутации', async () => {
+      const onError = vi.fn();
+      const mobxQuery = new MobxQuery({ onError });
+      const mutation = mobxQuery.createMutation(() => Promise.reject('error'), {
+        meta: { screen: 'form' },
+      });
+
+      mutation.sync();
+      await vi.waitFor(() => expect(onError).toBeCalled());
+      expect(onError).toBeCalledWith('error', { meta: { screen: 'form' } });
+    });
+  });
+
+  describe('При работе с данными кеша по ключу', () => {
+    it('getQueryData возвращает данные квери', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('bar'),
+      );
+
+      await query.async();
+      expect(mobxQuery.getQueryData(['foo'])).toBe('bar');
+    });
+
+    it('getQueryData возвращает данные инфинит квери при isInfinite=true', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createInfiniteQuery(['foo'], () =>
+        Promise.resolve(['bar']),
+      );
+
+      await query.async();
+      expect(mobxQuery.getQueryData(['foo'])).toBeUndefined();
+
+      expect(mobxQuery.getQueryData(['foo'], { isInfinite: true })).toEqual([
+        'bar',
+      ]);
+    });
+
+    it('setQueryData обновляет данные всех квери с тем же ключом', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('bar'),
+      );
+      const networkQuery = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('bar'),
+        { fetchPolicy: 'network-only' },
+      );
+
+      await query.async();
+      mobxQuery.setQueryData(['foo'], 'baz');
+      expect(query.data).toBe('baz');
+      expect(networkQuery.data).toBe('baz');
+    });
+
+    it('setQueryData вычисляет данные на основе текущих при передаче функции', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createInfiniteQuery(['foo'], () =>
+        Promise.resolve(['bar']),
+      );
+
+      await query.async();
+
+      mobxQuery.setQueryData<string[]>(
+        ['foo'],
+        (prevData = []) => [...prevData, 'baz'],
+        { isInfinite: true },
+      );
+
+      expect(query.data).toEqual(['bar', 'baz']);
+    });
+
+    it('setQueryData сбрасывает инвалидацию квери', async () => {
+      const mobxQuery = new MobxQuery();
+      const executorSpy = vi.fn(() => Promise.resolve('bar'));
+      const query = mobxQuery.createQuery(['foo'], executorSpy);
+
+      await query.async();
+      mobxQuery.invalidate(['foo']);
+      mobxQuery.setQueryData(['foo'], 'baz');
+      await query.async();
+      expect(executorSpy).toBeCalledTimes(1);
+    });
+
+    it('Квери, созданный после setQueryData, берет данные из кеша без запроса', async () => {
+      const mobxQuery = new MobxQuery();
+      const executorSpy = vi.fn(() => Promise.resolve('bar'));
+
+      mobxQuery.setQueryData(['foo'], 'baz');
+
+      const query = mobxQuery.createQuery(['foo'], executorSpy);
+
+      expect(await query.async()).toBe('baz');
+      expect(query.isSuccess).toBeTruthy();
+      expect(query.dataSource).toBe('forceUpdate');
+      expect(executorSpy).not.toBeCalled();
+    });
+
+    it('getQueryState возвращает данные и статусы по ключу', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('bar'),
+      );
+
+      await query.async();
+
+      expect(mobxQuery.getQueryState(['foo'])).toStrictEqual({
+        data: 'bar',
+        dataUpdatedAt: Date.now(),
+        dataSource: 'network',
+        isLoading: false,
+        isPaused: false,
+        isError: false,
+        isSuccess: true,
+        error: undefined,
+        errorUpdatedAt: undefined,
+      });
+    });
+
+    it('getQueryState возвращает undefined при отсутствии данных по ключу', () => {
+      const mobxQuery = new MobxQuery();
+
+      expect(mobxQuery.getQueryState(['foo'])).toBeUndefined();
+    });
+
+    it('Квери, созданный после hydrate, берет восстановленные данные без запроса', async () => {
+      const mobxQuery = new MobxQuery();
+      const executorSpy = vi.fn(() => Promise.resolve('bar'));
+
+      mobxQuery.hydrate(['foo'], 'baz', { dataUpdatedAt: 1000 });
+
+      const query = mobxQuery.createQuery(['foo'], executorSpy);
+
+      expect(await query.async()).toBe('baz');
+      expect(query.dataSource).toBe('hydrated');
+      expect(query.dataUpdatedAt).toBe(1000);
+      expect(executorSpy).not.toBeCalled();
+    });
+
+    it('hydrate не затирает более свежие данные кеша', async () => {
+      const mobxQuery = new MobxQuery();
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('bar'),
+      );
+
+      await query.async();
+      mobxQuery.hydrate(['foo'], 'baz', { dataUpdatedAt: Date.now() - 1000 });
+      expect(query.data).toBe('bar');
+      expect(query.dataSource).toBe('network');
+    });
+
+    it('Устаревшие восстановленные данные перезапрашиваются', async () => {
+      const mobxQuery = new MobxQuery({ staleTime: 1000 });
+      const executorSpy = vi.fn(() => Promise.resolve('bar'));
+
+      mobxQuery.hydrate(['foo'], 'baz', { dataUpdatedAt: Date.now() - 1000 });
+
+      const query = mobxQuery.createQuery(['foo'], executorSpy);
+
+      expect(await query.async()).toBe('bar');
+      expect(executorSpy).toBeCalledTimes(1);
+    });
+  });
+
+  it('Создаваемый квери по умолчанию не использует background', () => {
+    const mobxQuery = new MobxQuery();
+
+    const query = mobxQuery.createQuery([['foo']], () =>
+      Promise.resolve('foo'),
+    );
+
+    expect(query.background).toBeNull();
+  });
+
+  it('Создаваемый квери использует background при передаче флага isBackground:true', () => {
+    const mobxQuery = new MobxQuery();
+
+    const query = mobxQuery.createQuery(
+      [['foo']],
+      () => Promise.resolve('foo'),
+      { isBackground: true },
+    );
+
+    expect(query.background).not.toBeNull();
+  });
+
+  describe('При использовании gcTime', () => {
+    // переустанавливаем фейковые таймеры, т.к. для всего набора подменяется только Date
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    it('Неиспользуемый квери удаляется из кеша по истечении gcTime', () => {
+      const mobxQuery = new MobxQuery({ gcTime: 1000 });
+      const queryA = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      vi.advanceTimersByTime(1000);
+
+      const queryB = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      expect(queryA).not.toBe(queryB);
+    });
+
+    it('Неиспользуемый квери не удаляется до истечения gcTime', () => {
+      const mobxQuery = new MobxQuery({ gcTime: 1000 });
+      const queryA = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      vi.advanceTimersByTime(500);
+
+      const queryB = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      expect(queryA).toBe(queryB);
+    });
+
+    it('Данные удаленного квери удаляются из кеша', async () => {
+      const mobxQuery = new MobxQuery({ gcTime: 1000 });
+
+      await mobxQuery
+        .createQuery(['foo'], () => Promise.resolve('foo'))
+        .async();
+
+      vi.advanceTimersByTime(1000);
+
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('bar'),
+      );
+
+      expect(query.data).toBeUndefined();
+      expect(query.isSuccess).toBeFalsy();
+    });
+
+    it('Квери, за данными которого наблюдают, не удаляется', () => {
+      const mobxQuery = new MobxQuery({ gcTime: 1000 });
+      const queryA = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+      const dispose = autorun(() => JSON.stringify(queryA.data));
+
+      vi.advanceTimersByTime(1000);
+
+      const queryB = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      expect(queryA).toBe(queryB);
+      dispose();
+    });
+
+    it('Квери удаляется по истечении gcTime после прекращения наблюдения', () => {
+      const mobxQuery = new MobxQuery({ gcTime: 1000 });
+      const queryA = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+      const dispose = autorun(() => JSON.stringify(queryA.data));
+
+      vi.advanceTimersByTime(1000);
+      dispose();
+      vi.advanceTimersByTime(1000);
+
+      const queryB = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      expect(queryA).not.toBe(queryB);
+    });
+
+    it('Данные не удаляются, пока используются другим квери', async () => {
+      const mobxQuery = new MobxQuery();
+
+      await mobxQuery
+        .createQuery(['foo'], () => Promise.resolve('foo'), { gcTime: 1000 })
+        .async();
+
+      const networkOnlyQuery = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('bar'),
+        { fetchPolicy: 'network-only' },
+      );
+
+      vi.advanceTimersByTime(1000);
+      expect(networkOnlyQuery.data).toBe('foo');
+
+      const query = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('bar'),
+      );
+
+      expect(query.data).toBe('foo');
+    });
+
+    it('gcTime фабричного метода приоритетнее gcTime для всего сервиса', () => {
+      const mobxQuery = new MobxQuery({ gcTime: 1000 });
+      const queryA = mobxQuery.createQuery(
+        ['foo'],
+        () => Promise.resolve('foo'),
+        { gcTime: Infinity },
+      );
+
+      vi.advanceTimersByTime(1000);
+
+      const queryB = mobxQuery.createQuery(['foo'], () =>
+        Promise.resolve('foo'),
+      );
+
+      expect(queryA).toBe(queryB);
+    });
   });
 });
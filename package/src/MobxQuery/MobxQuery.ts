@@ -1,3 +1,5 @@
+import { computed, reaction, runInAction } from 'mobx';
+
 import { Query, type QueryExecutor, type QueryParams } from '../Query';
 import {
   type InfiniteExecutor,
@@ -9,68 +11,386 @@ import {
   type MutationExecutor,
   type MutationParams,
 } from '../Mutation';
-import type { CacheKey, FetchPolicy } from '../types';
-import { type DataStorage, DataStorageFactory } from '../DataStorage';
+import type {
+  CacheKey,
+  DataUpdater,
+  FetchPolicy,
+  NetworkMode,
+  OnError,
+  Retry,
+  RetryDelay,
+  SelectedQuery,
+} from '../types';
+import {
+  type DataObservability,
+  type DataSource,
+  type DataStorage,
+  DataStorageFactory,
+} from '../DataStorage';
 import { type StatusStorage, StatusStorageFactory } from '../StatusStorage';
 import { AdaptableMap } from '../AdaptableMap';
+import { InFlightRequests } from '../InFlightRequests';
+import { ReactiveQuery } from '../ReactiveQuery';
+import { ReactiveInfiniteQuery } from '../ReactiveInfiniteQuery';
+import { type ReactiveQueryParams } from '../ReactiveQueryContainer';
+import { FocusManager } from '../FocusManager';
+import { OnlineManager } from '../OnlineManager';
+import { ExecutionGate, type PauseParams } from '../ExecutionGate';
 
 /**
- * Стандартный обработчик ошибки запроса,
- * будет вызван, если при вызове sync не был передан отдельный onError параметр
+ * Минимальный интервал в миллисекундах между перезапросами по событиям окружения
  */
-type OnError<TError = unknown> = (error: TError) => void;
+const REFETCH_THROTTLE_INTERVAL = 1000;
 
 /**
  * Хэш ключа
  */
 type KeyHash = string;
 
-type MobxQueryParams = {
+/**
+ * Параметры перезапроса данных по событиям окружения
+ */
+type RefetchTriggers = {
+  /**
+   * Флаг перезапроса устаревших данных при возвращении пользователя на страницу
+   * @default false
+   */
+  refetchOnFocus?: boolean;
+  /**
+   * Флаг перезапроса устаревших данных при восстановлении сети
+   * @default false
+   */
+  refetchOnReconnect?: boolean;
+};
+
+type RefetchTrigger = keyof RefetchTriggers;
+
+/**
+ * Ключи квери к внутренним хранилищам
+ */
+type QueryKeys = {
+  key: CacheKey[];
+  queryKey: CacheKey[];
+  queryKeyHash: KeyHash;
+  dataKeyHash: KeyHash;
+  statusKeyHash: KeyHash;
+  backgroundStatusKeyHash: KeyHash;
+};
+
+type MobxQueryParams<TDefaultFetchPolicy extends FetchPolicy> = {
   /**
    * Политика получения данных по умолчанию.
+   * Политика cache-and-network по умолчанию делает background квери доступным и на уровне типов
    * @enum cache-first - данные сначала берутся из кеша, если их нет, тогда идет обращение к сети, ответ записывается в кэш
    * @enum network-only - данные всегда берутся из сети, при этом ответ записывается в кэш
+   * @enum cache-and-network - данные сразу берутся из кеша и одновременно обновляются из сети, статусы обновления записываются в фоновое хранилище
+   * @enum cache-only - данные берутся только из кеша, обращения к сети не происходит
+   * @enum no-cache - данные всегда берутся из сети, при этом ответ не записывается в кэш
+   * @default 'cache-first'
    */
-  fetchPolicy?: FetchPolicy;
+  fetchPolicy?: TDefaultFetchPolicy;
   /**
-   * обработчик ошибок по умолчанию
+   * обработчик ошибок по умолчанию, вторым аргументом получает ключ и мета-данные квери или мутации
    */
-  onError?: OnError;
+  onError?: OnError<unknown>;
   /**
-   * Флаг, отвечающий за автоматический запрос данных при обращении к полю data по умолчанию.
+   * Флаг, отвечающий за автоматический запрос данных при наблюдении за полем data по умолчанию.
    * @default false
    */
   enabledAutoFetch?: boolean;
-};
+  /**
+   * Время в миллисекундах по умолчанию, по истечении которого данные считаются устаревшими и будут перезапрошены.
+   * @default Infinity
+   */
+  staleTime?: number;
+  /**
+   * Время в миллисекундах по умолчанию, по истечении которого неиспользуемый квери удаляется из кеша.
+   * @default Infinity
+   */
+  gcTime?: number;
+  /**
+   * Количество повторных попыток запроса после ошибки по умолчанию,
+   * либо предикат, определяющий необходимость повторной попытки.
+   * @default 0
+   */
+  retry?: Retry<unknown>;
+  /**
+   * Задержка в миллисекундах перед повторной попыткой запроса по умолчанию, либо функция ее вычисления.
+   * @default экспоненциальная задержка со случайным разбросом
+   */
+  retryDelay?: RetryDelay<unknown>;
+  /**
+   * Интервал дедупликации network-only и no-cache квери в миллисекундах.
+   * В течение интервала создание network-only и no-cache квери с тем же ключом вернет уже созданный инстанс,
+   * а запросы вернут результат исполняемого, либо только что успешно завершенного запроса
+   * @default 1000
+   */
+  dedupeInterval?: number;
+  /**
+   * Режим наблюдаемости данных в кеше по умолчанию:
+   * deep - данные глубоко конвертируются в observable,
+   * ref - отслеживается только замена ссылки на данные,
+   * struct - аналогичен ref, т.к. структурно равные данные не заменяются во всех режимах
+   * @default 'deep'
+   */
+  observability?: DataObservability;
+  /**
+   * Менеджер фокуса, по событиям которого перезапрашиваются квери с refetchOnFocus,
+   * а на скрытой странице приостанавливается периодический перезапрос
+   * @default менеджер, отслеживающий события window
+   */
+  focusManager?: FocusManager;
+  /**
+   * Режим работы с сетью по умолчанию для квери и мутаций.
+   * @enum online - запросы исполняются только при наличии сети, без сети они приостанавливаются до ее восстановления
+   * @enum always - запросы исполняются независимо от наличия сети
+   * @enum offlineFirst - первая попытка запроса исполняется всегда, а повторные попытки без сети приостанавливаются до ее восстановления
+   * @default 'online'
+   */
+  networkMode?: NetworkMode;
+  /**
+   * Менеджер сети, по событиям которого перезапрашиваются квери с refetchOnReconnect,
+   * а приостановленные без сети запросы возобновляются
+   * @default менеджер, отслеживающий события window
+   */
+  onlineManager?: OnlineManager;
+  /**
+   * Источник текущего времени в миллисекундах, предназначен для подмены в тестах
+   * @default Date.now
+   */
+  now?: () => number;
+} & RefetchTriggers;
 
-type CreateQueryParams<TResult, TError, TIsBackground extends boolean> = Omit<
-  QueryParams<TResult, TError, TIsBackground>,
-  'dataStorage' | 'statusStorage' | 'backgroundStatusStorage' | 'submitValidity'
-> & {
+/**
+ * Параметры, которые обрабатываются самим сервисом и не передаются в квери
+ */
+type CacheParams<TIsBackground extends boolean> = {
   /**
    * Режим фонового обновления
    * @default false
    */
   isBackground?: TIsBackground;
+  /**
+   * Время в миллисекундах, по истечении которого неиспользуемый квери удаляется из кеша.
+   * Квери считается неиспользуемым, пока никто не наблюдает за его полем data или статусами
+   * @default Infinity
+   */
+  gcTime?: number;
+  /**
+   * Режим наблюдаемости данных в кеше.
+   * Применяется при создании хранилища данных, т.е. первым квери с таким ключом
+   * @default 'deep'
+   */
+  observability?: DataObservability;
+} & RefetchTriggers;
+
+/**
+ * Режим фонового обновления с учетом политики получения данных,
+ * cache-and-network квери всегда обновляют данные в фоне, поэтому их background доступен.
+ * Если политика квери не передана, учитывается политика по умолчанию всего сервиса
+ */
+type PolicyBackground<
+  TIsBackground extends boolean,
+  TFetchPolicy extends FetchPolicy | undefined,
+  TDefaultFetchPolicy extends FetchPolicy,
+> = [
+  [TFetchPolicy] extends [undefined] ? TDefaultFetchPolicy : TFetchPolicy,
+] extends ['cache-and-network']
+  ? true
+  : TIsBackground;
+
+/**
+ * Политика получения данных, от которой зависит тип background квери
+ */
+type FetchPolicyParams<TFetchPolicy extends FetchPolicy | undefined> = {
+  fetchPolicy?: TFetchPolicy;
 };
 
+type CreateQueryParams<
+  TResult,
+  TError,
+  TIsBackground extends boolean,
+  TData = TResult,
+> = Omit<
+  QueryParams<TResult, TError, TIsBackground>,
+  | 'key'
+  | 'dataStorage'
+  | 'statusStorage'
+  | 'backgroundStatusStorage'
+  | 'submitValidity'
+  | 'onInvalidate'
+  | 'focusManager'
+  | 'onlineManager'
+  | 'executionGate'
+> &
+  CacheParams<TIsBackground> &
+  SelectParams<TResult, TData>;
+
 type CreateInfiniteQueryParams<
   TResult,
   TError,
   TIsBackground extends boolean,
+  TData = Array<TResult>,
 > = Omit<
   InfiniteQueryParams<TResult, TError, TIsBackground>,
-  'dataStorage' | 'statusStorage' | 'backgroundStatusStorage' | 'submitValidity'
-> & {
+  | 'key'
+  | 'dataStorage'
+  | 'statusStorage'
+  | 'backgroundStatusStorage'
+  | 'submitValidity'
+  | 'onInvalidate'
+  | 'focusManager'
+  | 'onlineManager'
+  | 'executionGate'
+> &
+  CacheParams<TIsBackground> &
+  SelectParams<Array<TResult>, TData>;
+
+type CreateReactiveQueryParams<
+  TResult,
+  TError,
+  TIsBackground extends boolean,
+  TData,
+> = Omit<
+  CreateQueryParams<TResult, TError, TIsBackground, TData>,
+  'placeholderData'
+> &
+  ReactiveQueryParams<TData>;
+
+type CreateReactiveInfiniteQueryParams<
+  TResult,
+  TError,
+  TIsBackground extends boolean,
+  TData,
+> = Omit<
+  CreateInfiniteQueryParams<TResult, TError, TIsBackground, TData>,
+  'placeholderData'
+> &
+  ReactiveQueryParams<TData>;
+
+/**
+ * Параметр преобразования данных, применяемый к data представления квери
+ */
+type SelectParams<TQueryData, TData> = {
   /**
-   * Режим фонового обновления
-   * @default false
+   * Функция преобразования данных, результат которой возвращается в data.
+   * Результат вычисляется через computed и не пересчитывается, пока исходные данные не изменились,
+   * а хранилище продолжает содержать исходные данные
    */
-  isBackground?: TIsBackground;
+  select?: (data: TQueryData) => TData;
 };
 
 type QueryType = typeof Query.name | typeof InfiniteQuery.name;
 
+/**
+ * Фильтр квери для массовых операций, все переданные условия должны выполняться одновременно
+ */
+type QueryFilters = {
+  /**
+   * Ключ, с которого должен начинаться ключ квери.
+   * Части ключа сравниваются целиком, т.е. ['user'] подходит для ['user', 42], но не для ['orders', 'user']
+   */
+  queryKey?: CacheKey[];
+  /**
+   * Флаг, при котором ключ квери должен полностью совпадать с queryKey
+   * @default false
+   */
+  exact?: boolean;
+  /**
+   * Предикат, определяющий, подходит ли квери под фильтр
+   */
+  predicate?: (
+    query: CachedQuery<unknown, unknown, boolean>,
+    key: CacheKey[],
+  ) => boolean;
+};
+
+/**
+ * Фильтр квери: объект фильтра, либо список частей ключей.
+ * Список частей ключей - устаревший режим, при котором подходят квери,
+ * в ключе которых есть хотя бы одна из переданных частей
+ */
+type QueriesFilter = QueryFilters | CacheKey[];
+
+/**
+ * Параметры инвалидации
+ */
+type InvalidateParams = {
+  /**
+   * Какие из инвалидированных квери будут перезапрошены сразу.
+   * Остальные квери будут перезапрошены при следующем обращении к данным
+   * @enum active - только квери, за данными которых наблюдают
+   * @enum all - все квери
+   * @enum none - ни один квери, в том числе наблюдаемый, данные только помечаются устаревшими
+   * @default 'active'
+   */
+  refetchType?: 'active' | 'all' | 'none';
+};
+
+/**
+ * Параметры доступа к данным кеша по ключу
+ */
+type QueryDataParams = {
+  /**
+   * Флаг, обозначающий, что данные принадлежат InfiniteQuery
+   * @default false
+   */
+  isInfinite?: boolean;
+};
+
+/**
+ * Параметры восстановления данных кеша по ключу
+ */
+type HydrateParams = QueryDataParams & {
+  /**
+   * Время получения восстанавливаемых данных в миллисекундах, по нему вычисляется их устаревание
+   * @default Date.now()
+   */
+  dataUpdatedAt?: number;
+};
+
+/**
+ * Состояние данных кеша по ключу
+ */
+type QueryState<TData, TError> = {
+  /**
+   * Данные, хранящиеся в кеше
+   */
+  data?: TData;
+  /**
+   * Время последнего обновления данных в миллисекундах
+   */
+  dataUpdatedAt?: number;
+  /**
+   * Источник последнего обновления данных
+   */
+  dataSource?: DataSource;
+  /**
+   * Время последней ошибки в миллисекундах
+   */
+  errorUpdatedAt?: number;
+  /**
+   * Флаг, обозначающий загрузку данных
+   */
+  isLoading: boolean;
+  /**
+   * Флаг, обозначающий, что запрос приостановлен до восстановления сети, либо до возобновления запросов
+   */
+  isPaused: boolean;
+  /**
+   * Флаг, обозначающий, что последний запрос был зафейлен
+   */
+  isError: boolean;
+  /**
+   * Флаг, обозначающий успешность завершения последнего запроса
+   */
+  isSuccess: boolean;
+  /**
+   * Данные о последней ошибке
+   */
+  error?: TError;
+};
+
 /**
  * Внутриний тип кешируемого стора
  */
@@ -84,11 +404,33 @@ type CachedQuery<TResult, TError, TIsBackground extends boolean> =
 type FallbackAbleCreateParams<TResult, TError, TIsBackground extends boolean> =
   | Pick<
       CreateQueryParams<TResult, TError, TIsBackground>,
-      'onError' | 'fetchPolicy' | 'enabledAutoFetch' | 'isBackground'
+      | 'onError'
+      | 'fetchPolicy'
+      | 'enabledAutoFetch'
+      | 'isBackground'
+      | 'staleTime'
+      | 'gcTime'
+      | 'retry'
+      | 'retryDelay'
+      | 'observability'
+      | 'refetchOnFocus'
+      | 'refetchOnReconnect'
+      | 'networkMode'
     >
   | Pick<
       CreateInfiniteQueryParams<TResult, TError, TIsBackground>,
-      'onError' | 'fetchPolicy' | 'enabledAutoFetch' | 'isBackground'
+      | 'onError'
+      | 'fetchPolicy'
+      | 'enabledAutoFetch'
+      | 'isBackground'
+      | 'staleTime'
+      | 'gcTime'
+      | 'retry'
+      | 'retryDelay'
+      | 'observability'
+      | 'refetchOnFocus'
+      | 'refetchOnReconnect'
+      | 'networkMode'
     >;
 
 /**
@@ -101,38 +443,77 @@ type InternalCreateQueryParams<
 > =
   | Pick<
       QueryParams<TResult, TError, TIsBackground>,
+      | 'key'
       | 'dataStorage'
       | 'backgroundStatusStorage'
       | 'onError'
       | 'statusStorage'
       | 'submitValidity'
+      | 'onInvalidate'
       | 'fetchPolicy'
       | 'enabledAutoFetch'
+      | 'staleTime'
+      | 'retry'
+      | 'retryDelay'
+      | 'focusManager'
+      | 'networkMode'
+      | 'onlineManager'
+      | 'executionGate'
     >
   | Pick<
       InfiniteQueryParams<TResult, TError, TIsBackground>,
+      | 'key'
       | 'dataStorage'
       | 'backgroundStatusStorage'
       | 'onError'
       | 'statusStorage'
       | 'submitValidity'
+      | 'onInvalidate'
       | 'fetchPolicy'
       | 'enabledAutoFetch'
+      | 'staleTime'
+      | 'retry'
+      | 'retryDelay'
+      | 'focusManager'
+      | 'networkMode'
+      | 'onlineManager'
+      | 'executionGate'
     >;
 
 /**
  * Сервис, позволяющий кэшировать данные.
  */
-export class MobxQuery<TDefaultError = void> {
+export class MobxQuery<
+  TDefaultError = void,
+  TDefaultFetchPolicy extends FetchPolicy = FetchPolicy,
+> {
   /**
    * Объект соответствия хешей ключей и их значений
    */
-  private keys = new Map<KeyHash, CacheKey[]>();
+  private keys = new Map<KeyHash, QueryKeys>();
+
+  /**
+   * Map таймеров удаления неиспользуемых квери,
+   * содержит только квери с конечным gcTime, значение отсутствует, пока квери используется
+   */
+  private gcTimers = new Map<
+    KeyHash,
+    ReturnType<typeof setTimeout> | undefined
+  >();
 
   /**
    * Map соответствия хешей ключей к запомненным сторам
    */
-  private queriesMap = new AdaptableMap<CachedQuery<unknown, unknown, false>>();
+  private queriesMap = new AdaptableMap<CachedQuery<unknown, unknown, false>>(
+    // удаляем ключ квери, удаленного сборщиком мусора,
+    // заодно очищаем устаревшие записи интервала дедупликации
+    (keyHash) => {
+      this.keys.delete(keyHash);
+      this.refetchTriggers.delete(keyHash);
+      this.inFlightRequests.prune();
+      this.pruneLastInstances();
+    },
+  );
 
   /**
    * Фабрика создания хранилищ данных для обычного Query
@@ -144,10 +525,39 @@ export class MobxQuery<TDefaultError = void> {
    */
   private statusStorageFactory = new StatusStorageFactory();
 
+  /**
+   * Текущие запросы, разделяемые между всеми квери с одинаковыми данными
+   */
+  private inFlightRequests: InFlightRequests;
+
+  /**
+   * Map последних созданных network-only и no-cache квери для каждого ключа,
+   * по которому определяется возможность переиспользования инстанса в пределах интервала дедупликации
+   */
+  private lastInstances = new Map<
+    KeyHash,
+    { instanceId: number; createdAt: number }
+  >();
+
+  /**
+   * Последний выданный порядковый номер network-only и no-cache квери,
+   * общий для всех ключей, чтобы номер не повторялся после удаления записи из lastInstances
+   */
+  private lastInstanceId = 0;
+
+  /**
+   * Представления квери для каждой функции преобразования данных,
+   * квери и функции хранятся слабо, поэтому представления удаляются вместе с ними
+   */
+  private selectedViews = new WeakMap<
+    object,
+    WeakMap<NonNullable<SelectParams<never, unknown>['select']>, unknown>
+  >();
+
   /**
    * Стандартный обработчик ошибок, будет использован, если не передан другой
    */
-  private readonly defaultErrorHandler?: OnError;
+  private readonly defaultErrorHandler?: OnError<unknown>;
 
   /**
    * Стандартное поведение политики кеширования
@@ -155,54 +565,375 @@ export class MobxQuery<TDefaultError = void> {
   private readonly defaultFetchPolicy: FetchPolicy;
 
   /**
-   * Флаг, отвечающий за автоматический запрос данных при обращении к полю data
+   * Флаг, отвечающий за автоматический запрос данных при наблюдении за полем data
    * @default false
    */
   private readonly defaultEnabledAutoFetch: boolean;
 
+  /**
+   * Время в миллисекундах, по истечении которого данные считаются устаревшими
+   * @default Infinity
+   */
+  private readonly defaultStaleTime: number;
+
+  /**
+   * Время в миллисекундах, по истечении которого неиспользуемый квери удаляется из кеша
+   * @default Infinity
+   */
+  private readonly defaultGcTime: number;
+
+  /**
+   * Количество повторных попыток запроса после ошибки, либо предикат необходимости повторной попытки
+   * @default 0
+   */
+  private readonly defaultRetry?: Retry<unknown>;
+
+  /**
+   * Задержка перед повторной попыткой запроса
+   */
+  private readonly defaultRetryDelay?: RetryDelay<unknown>;
+
+  /**
+   * Интервал дедупликации network-only и no-cache квери в миллисекундах
+   * @default 0
+   */
+  private readonly dedupeInterval: number;
+
+  /**
+   * Режим наблюдаемости данных в кеше
+   * @default 'deep'
+   */
+  private readonly defaultObservability: DataObservability;
+
+  /**
+   * Флаги перезапроса данных по событиям окружения
+   */
+  private readonly defaultRefetchTriggers: Required<RefetchTriggers>;
+
+  /**
+   * Map соответствия хешей ключей квери к их флагам перезапроса по событиям окружения
+   */
+  private refetchTriggers = new Map<KeyHash, Required<RefetchTriggers>>();
+
+  /**
+   * Время последнего перезапроса по каждому из событий окружения
+   */
+  private lastRefetchTimes = new Map<RefetchTrigger, number>();
+
+  /**
+   * Менеджер фокуса, по которому квери приостанавливают периодический перезапрос на скрытой странице
+   */
+  private readonly focusManager: FocusManager;
+
+  /**
+   * Режим работы с сетью по умолчанию
+   * @default 'online'
+   */
+  private readonly defaultNetworkMode: NetworkMode;
+
+  /**
+   * Менеджер сети, по которому запросы приостанавливаются до восстановления сети
+   */
+  private readonly onlineManager: OnlineManager;
+
+  /**
+   * Функции отписки от событий менеджеров окружения
+   */
+  private readonly environmentUnsubscribers: Array<() => void>;
+
+  /**
+   * Шлюз исполнения, через который проходят все новые запросы квери и мутаций
+   */
+  private readonly executionGate = new ExecutionGate();
+
+  /**
+   * Источник текущего времени в миллисекундах
+   */
+  private readonly now: () => number;
+
   private serialize = (data: CacheKey | CacheKey[]) => JSON.stringify(data);
 
   constructor({
     onError,
-    fetchPolicy = 'cache-first',
+    fetchPolicy,
     enabledAutoFetch = false,
-  }: MobxQueryParams = {}) {
+    staleTime = Infinity,
+    gcTime = Infinity,
+    retry,
+    retryDelay,
+    dedupeInterval = 1000,
+    observability = 'deep',
+    refetchOnFocus = false,
+    refetchOnReconnect = false,
+    networkMode = 'online',
+    focusManager = new FocusManager(),
+    onlineManager = new OnlineManager(),
+    now = Date.now,
+  }: MobxQueryParams<TDefaultFetchPolicy> = {}) {
     this.defaultErrorHandler = onError;
-    this.defaultFetchPolicy = fetchPolicy;
+    this.defaultFetchPolicy = fetchPolicy || 'cache-first';
     this.defaultEnabledAutoFetch = enabledAutoFetch;
+    this.defaultStaleTime = staleTime;
+    this.defaultGcTime = gcTime;
+    this.defaultRetry = retry;
+    this.defaultRetryDelay = retryDelay;
+    this.dedupeInterval = dedupeInterval;
+    this.defaultObservability = observability;
+    this.defaultRefetchTriggers = { refetchOnFocus, refetchOnReconnect };
+    this.focusManager = focusManager;
+    this.defaultNetworkMode = networkMode;
+    this.onlineManager = onlineManager;
+    this.now = now;
+    this.inFlightRequests = new InFlightRequests(now);
+
+    this.environmentUnsubscribers = [
+      focusManager.subscribe(() => this.refetchByTrigger('refetchOnFocus')),
+      onlineManager.subscribe(() =>
+        this.refetchByTrigger('refetchOnReconnect'),
+      ),
+    ];
   }
 
   /**
-   * Метод для инвалидации по списку ключей,
-   * предполагается использование из домена
+   * Метод для инвалидации квери, подходящих под фильтр,
+   * предполагается использование из домена.
+   * Возвращает промис, который завершится после перезапроса инвалидированных квери
+   */
+  public invalidate = (filter: QueriesFilter, params?: InvalidateParams) =>
+    this.invalidateMatched(filter, params);
+
+  /**
+   * Метод для отмены текущих запросов квери, подходящих под фильтр.
+   * Статусы квери возвращаются в состояние до запроса, а ответы не попадут в кеш
+   */
+  public cancelQueries = (filter: QueriesFilter) => {
+    this.forEachMatchedQuery(filter, (query) => query.cancel());
+  };
+
+  /**
+   * Метод сброса квери, подходящих под фильтр, в исходное состояние.
+   * Текущие запросы отменяются, данные и статусы в хранилищах очищаются,
+   * при этом квери остаются в кеше
+   */
+  public resetQueries = (filter: QueriesFilter) => {
+    this.forEachMatchedQuery(filter, this.resetQuery);
+  };
+
+  /**
+   * Метод удаления квери, подходящих под фильтр, из кеша.
+   * Текущие запросы отменяются, а данные и статусы в хранилищах очищаются,
+   * поэтому оставшиеся ссылки на удаленные квери не содержат прежних данных
+   */
+  public removeQueries = (filter: QueriesFilter) => {
+    this.forEachMatchedQuery(filter, (query, keyHash) => {
+      this.resetQuery(query, keyHash);
+      this.removeQuery(keyHash);
+    });
+  };
+
+  /**
+   * Флаг, обозначающий, что новые запросы квери и мутаций приостановлены
+   */
+  public get isPaused() {
+    return this.executionGate.isPaused;
+  }
+
+  /**
+   * Метод приостановки всех новых запросов квери и мутаций, например, на время обновления токена доступа.
+   * Уже исполняемые запросы продолжаются, а новые ставятся в очередь
+   */
+  public pause = (params?: PauseParams) => {
+    this.executionGate.pause(params);
+  };
+
+  /**
+   * Метод возобновления запросов, запросы из очереди исполняются в порядке постановки
+   */
+  public resume = () => {
+    this.executionGate.resume();
+  };
+
+  /**
+   * Метод приостановки всех новых запросов до завершения промиса,
+   * возвращает исходный промис
+   */
+  public pauseWhile = <TResult>(
+    promise: Promise<TResult>,
+    params?: PauseParams,
+  ) => this.executionGate.pauseWhile(promise, params);
+
+  /**
+   * Метод сброса квери, завершенные запросы квери больше не переиспользуются
+   */
+  private resetQuery = (
+    query: CachedQuery<unknown, unknown, false>,
+    keyHash: KeyHash,
+  ) => {
+    query.reset();
+
+    const keys = this.keys.get(keyHash);
+
+    if (keys) {
+      this.inFlightRequests.forget(keys.dataKeyHash);
+    }
+  };
+
+  /**
+   * Метод завершения работы сервиса, отписывает его от событий фокуса и сети.
+   * После вызова квери больше не перезапрашиваются по этим событиям
+   */
+  public destroy = () => {
+    this.environmentUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.environmentUnsubscribers.length = 0;
+  };
+
+  /**
+   * Метод полной очистки кеша, например, при выходе пользователя.
+   * Удаляет все квери так же, как removeQueries, а также данные, установленные через setQueryData
+   */
+  public clear = () => {
+    this.removeQueries({});
+    this.queryDataStorageFactory = new DataStorageFactory();
+    this.statusStorageFactory = new StatusStorageFactory();
+    this.inFlightRequests = new InFlightRequests(this.now);
+    this.lastInstances.clear();
+  };
+
+  /**
+   * Метод инвалидации квери, подходящих под фильтр, с перезапросом согласно refetchType.
+   * Ошибки перезапроса не приводят к ошибке промиса, они доступны в статусах квери
    */
-  public invalidate = (keysParts: CacheKey[]) => {
+  private invalidateMatched = (
+    filter: QueriesFilter,
+    { refetchType = 'active' }: InvalidateParams = {},
+  ) => {
+    const refetches: Promise<unknown>[] = [];
+
+    this.forEachMatchedQuery(filter, (query, keyHash) => {
+      // при refetchType: 'none' данные только помечаются устаревшими,
+      // чтобы наблюдаемые квери не начали перезапрос сами
+      query.invalidate({ refetch: refetchType !== 'none' });
+      // Конвертируем инвалидированный квери в слабый,
+      // чтобы сборщик мусора мог удалить неиспользуемые квери
+      this.convertToWeak(keyHash);
+
+      const shouldRefetch =
+        refetchType === 'all' || (refetchType === 'active' && query.isActive);
+
+      // выключенный квери перезапросит данные после включения
+      if (shouldRefetch && query.isEnabled) {
+        // наблюдаемый квери сам начнет перезапрос,
+        // async вернет промис этого же запроса благодаря единому промису
+        refetches.push(query.async());
+      }
+    });
+
+    return Promise.allSettled(refetches).then(() => undefined);
+  };
+
+  /**
+   * Метод для обхода квери, подходящих под фильтр
+   */
+  private forEachMatchedQuery = (
+    filter: QueriesFilter,
+    callback: (
+      query: CachedQuery<unknown, unknown, false>,
+      keyHash: KeyHash,
+    ) => void,
+  ) => {
+    const isMatched = Array.isArray(filter)
+      ? this.createTouchedMatcher(filter)
+      : this.createFiltersMatcher(filter);
+
+    [...this.keys.entries()].forEach(([keyHash, keys]) => {
+      const query = this.getQuery(keyHash);
+
+      if (query && isMatched(query, keys)) {
+        callback(query, keyHash);
+      }
+    });
+  };
+
+  /**
+   * Метод перезапроса устаревших данных активных квери по событию окружения.
+   * Повторные события в течение REFETCH_THROTTLE_INTERVAL игнорируются
+   */
+  private refetchByTrigger = (trigger: RefetchTrigger) => {
+    const now = this.now();
+    const lastRefetchTime = this.lastRefetchTimes.get(trigger);
+
+    if (
+      lastRefetchTime !== undefined &&
+      now - lastRefetchTime < REFETCH_THROTTLE_INTERVAL
+    ) {
+      return;
+    }
+
+    this.lastRefetchTimes.set(trigger, now);
+
+    this.forEachMatchedQuery({}, (query, keyHash) => {
+      if (
+        this.refetchTriggers.get(keyHash)?.[trigger] &&
+        query.isActive &&
+        query.isStale &&
+        query.isEnabled
+      ) {
+        query.sync();
+      }
+    });
+  };
+
+  /**
+   * Метод создания проверки пересечения ключа квери с переданным списком частей ключей
+   */
+  private createTouchedMatcher = (keysParts: CacheKey[]) => {
     // Сет сериализованных ключей
     const keysSet = new Set(keysParts.map(this.serialize));
 
-    [...this.keys.keys()].forEach((keyHash) => {
-      const key = this.keys.get(keyHash);
+    return (_: CachedQuery<unknown, unknown, false>, { queryKey }: QueryKeys) =>
+      queryKey.some((valuePart) => keysSet.has(this.serialize(valuePart)));
+  };
+
+  /**
+   * Метод создания проверки соответствия квери объекту фильтра
+   */
+  private createFiltersMatcher = ({
+    queryKey = [],
+    exact = false,
+    predicate,
+  }: QueryFilters) => {
+    const serializedParts = queryKey.map(this.serialize);
 
-      if (!key) {
-        return;
+    return (
+      query: CachedQuery<unknown, unknown, false>,
+      { key }: QueryKeys,
+    ) => {
+      if (exact && key.length !== queryKey.length) {
+        return false;
       }
 
-      // Проверяем, есть ли пересечение между закешированными ключами и набором ключей для инвалидации
-      const hasTouchedElement = key.some((valuePart) =>
-        keysSet.has(this.serialize(valuePart)),
+      const isKeyMatched = serializedParts.every(
+        (part, index) =>
+          index < key.length && part === this.serialize(key[index]),
       );
 
-      if (hasTouchedElement) {
-        const query = this.queriesMap.get(keyHash);
+      return isKeyMatched && (predicate?.(query, key) ?? true);
+    };
+  };
 
-        if (query) {
-          query.invalidate();
-          // Конвертируем инвалидированный квери в слабый,
-          // чтобы сборщик мусора мог удалить неиспользуемые квери
-          this.queriesMap.convertToWeak(keyHash);
-        }
-      }
-    });
+  /**
+   * Метод получения квери по хешу ключа,
+   * если квери уже удален сборщиком мусора, то удаляет оставшийся от него ключ
+   */
+  private getQuery = (keyHash: KeyHash) => {
+    const query = this.queriesMap.get(keyHash);
+
+    if (!query) {
+      this.keys.delete(keyHash);
+      this.refetchTriggers.delete(keyHash);
+    }
+
+    return query;
   };
 
   // Метод для подтверждения того, что квери успешно получил валидные данные
@@ -213,13 +944,260 @@ export class MobxQuery<TDefaultError = void> {
   };
 
   /**
-   * Метод инвалидации всех query
+   * Метод инвалидации всех query, либо подходящих под фильтр.
+   * Возвращает промис, который завершится после перезапроса инвалидированных квери
    */
-  public invalidateQueries = () => {
-    [...this.keys.keys()].forEach((keyHash) => {
-      this.queriesMap.get(keyHash)?.invalidate();
-      this.queriesMap.convertToWeak(keyHash);
+  public invalidateQueries = (
+    filters: QueryFilters = {},
+    params?: InvalidateParams,
+  ) => this.invalidateMatched(filters, params);
+
+  /**
+   * Метод получения данных из кеша по ключу, запрос при этом не происходит
+   */
+  public getQueryData = <TData>(key: CacheKey[], params?: QueryDataParams) => {
+    const { dataKeyHash } = this.makeStorageKeys(
+      key,
+      this.getQueryType(params),
+    );
+
+    if (!this.queryDataStorageFactory.hasStorage(dataKeyHash)) {
+      return undefined;
+    }
+
+    return this.queryDataStorageFactory.getStorage<TData>(dataKeyHash).data;
+  };
+
+  /**
+   * Метод получения состояния данных кеша по ключу,
+   * если данных по ключу никогда не было, то вернется undefined
+   */
+  public getQueryState = <TData, TError = TDefaultError>(
+    key: CacheKey[],
+    params?: QueryDataParams,
+  ): QueryState<TData, TError> | undefined => {
+    const { dataKeyHash, statusKeyHash } = this.makeStorageKeys(
+      key,
+      this.getQueryType(params),
+    );
+
+    if (!this.queryDataStorageFactory.hasStorage(dataKeyHash)) {
+      return undefined;
+    }
+
+    const {
+      data,
+      dataUpdatedAt,
+      source: dataSource,
+    } = this.queryDataStorageFactory.getStorage<TData>(dataKeyHash);
+    const { isLoading, isPaused, isError, isSuccess, error, errorUpdatedAt } =
+      this.statusStorageFactory.getStorage<TError>(statusKeyHash);
+
+    return {
+      data,
+      dataUpdatedAt,
+      dataSource,
+      isLoading,
+      isPaused,
+      isError,
+      isSuccess,
+      error,
+      errorUpdatedAt,
+    };
+  };
+
+  /**
+   * Метод установки данных в кеш по ключу,
+   * вместо данных можно передать функцию, вычисляющую новые данные на основе текущих.
+   * Все квери, использующие эти данные, обновятся так же, как при вызове forceUpdate
+   */
+  public setQueryData = <TData>(
+    key: CacheKey[],
+    dataOrUpdater: DataUpdater<TData>,
+    params?: QueryDataParams,
+  ) => {
+    const { dataKeyHash, statusKeyHash } = this.makeStorageKeys(
+      key,
+      this.getQueryType(params),
+    );
+    const storage = this.queryDataStorageFactory.getStorage<TData>(
+      dataKeyHash,
+      this.defaultObservability,
+    );
+    const data = storage.resolveData(dataOrUpdater);
+    const queries = this.getQueriesByDataKeyHash(dataKeyHash);
+
+    runInAction(() => {
+      if (queries.length) {
+        queries.forEach((query) =>
+          (query.forceUpdate as (data: TData) => void)(data),
+        );
+
+        return;
+      }
+
+      // квери с такими данными еще нет,
+      // поэтому статусы выставляем сами, чтобы созданный позже квери взял данные из кеша
+      const statusStorage = this.statusStorageFactory.getStorage(statusKeyHash);
+
+      storage.setData(data, { source: 'forceUpdate' });
+      statusStorage.isError = false;
+      statusStorage.isSuccess = true;
     });
+
+    return data;
+  };
+
+  /**
+   * Метод восстановления данных кеша по ключу из сохраненного состояния, например, из ответа сервера при SSR.
+   * Данные записываются, только если в кеше нет более свежих данных,
+   * поэтому повторное восстановление не затирает данные, уже обновленные запросом
+   */
+  public hydrate = <TData>(
+    key: CacheKey[],
+    data: TData,
+    { dataUpdatedAt = Date.now(), ...params }: HydrateParams = {},
+  ) => {
+    const { dataKeyHash, statusKeyHash } = this.makeStorageKeys(
+      key,
+      this.getQueryType(params),
+    );
+    const storage = this.queryDataStorageFactory.getStorage<TData>(
+      dataKeyHash,
+      this.defaultObservability,
+    );
+
+    if (
+      storage.hasData &&
+      storage.dataUpdatedAt !== undefined &&
+      storage.dataUpdatedAt >= dataUpdatedAt
+    ) {
+      return;
+    }
+
+    runInAction(() => {
+      const statusStorage = this.statusStorageFactory.getStorage(statusKeyHash);
+
+      storage.setData(data, { updatedAt: dataUpdatedAt, source: 'hydrated' });
+      statusStorage.isError = false;
+      statusStorage.isSuccess = true;
+    });
+  };
+
+  /**
+   * Метод получения всех живых квери, использующих хранилище данных с переданным хешем
+   */
+  private getQueriesByDataKeyHash = (dataKeyHash: KeyHash) =>
+    [...this.keys.values()]
+      .filter((keys) => keys.dataKeyHash === dataKeyHash)
+      .map(({ queryKeyHash }) => this.getQuery(queryKeyHash))
+      .filter((query): query is CachedQuery<unknown, unknown, false> =>
+        Boolean(query),
+      );
+
+  private getQueryType = (params?: QueryDataParams): QueryType =>
+    params?.isInfinite ? InfiniteQuery.name : Query.name;
+
+  /**
+   * Метод конвертации квери в слабый.
+   * Квери с конечным gcTime всегда хранятся как сильные,
+   * т.к. их удаление из памяти определяется gcTime, а не сборщиком мусора
+   */
+  private convertToWeak = (keyHash: KeyHash) => {
+    if (!this.gcTimers.has(keyHash)) {
+      this.queriesMap.convertToWeak(keyHash);
+    }
+  };
+
+  /**
+   * Метод, запускающий отслеживание использования квери.
+   * Квери считается активным, пока за ним наблюдают,
+   * по истечении конечного gcTime с момента, когда за квери перестали наблюдать, он удаляется из кеша
+   */
+  private watchUsage = (
+    query: CachedQuery<unknown, unknown, boolean>,
+    keyHash: KeyHash,
+    gcTime: number,
+  ) => {
+    if (!Number.isFinite(gcTime)) {
+      return;
+    }
+
+    // обработчики могут сработать и после удаления квери из кеша,
+    // поэтому проверяем, что в кеше по ключу все еще тот же самый квери
+    const isCached = () => this.queriesMap.get(keyHash) === query;
+
+    const scheduleRemoval = () => {
+      this.gcTimers.set(
+        keyHash,
+        setTimeout(() => this.removeQuery(keyHash), gcTime),
+      );
+    };
+
+    const cancelRemoval = () => {
+      clearTimeout(this.gcTimers.get(keyHash));
+      this.gcTimers.set(keyHash, undefined);
+    };
+
+    reaction(
+      () => query.isActive,
+      (isActive) => {
+        if (!isCached()) {
+          return;
+        }
+
+        if (isActive) {
+          cancelRemoval();
+        } else {
+          scheduleRemoval();
+        }
+      },
+    );
+
+    this.queriesMap.convertToStrong(keyHash);
+    scheduleRemoval();
+  };
+
+  /**
+   * Метод удаления квери из кеша вместе с его хранилищами,
+   * хранилища удаляются, только если они не используются другими квери
+   */
+  private removeQuery = (keyHash: KeyHash) => {
+    const removedKeys = this.keys.get(keyHash);
+
+    // оставшиеся ссылки на удаленный квери не должны продолжать опрос
+    this.queriesMap.get(keyHash)?.stopPolling();
+    clearTimeout(this.gcTimers.get(keyHash));
+    this.gcTimers.delete(keyHash);
+    this.queriesMap.delete(keyHash);
+    this.keys.delete(keyHash);
+    this.refetchTriggers.delete(keyHash);
+
+    if (!removedKeys) {
+      return;
+    }
+
+    const isUsed = (storageKey: Exclude<keyof QueryKeys, 'key' | 'queryKey'>) =>
+      [...this.keys.values()].some(
+        (keys) =>
+          keys[storageKey] === removedKeys[storageKey] &&
+          this.queriesMap.has(keys.queryKeyHash),
+      );
+
+    if (!isUsed('dataKeyHash')) {
+      this.queryDataStorageFactory.removeStorage(removedKeys.dataKeyHash);
+      this.inFlightRequests.forget(removedKeys.dataKeyHash);
+    }
+
+    if (!isUsed('statusKeyHash')) {
+      this.statusStorageFactory.removeStorage(removedKeys.statusKeyHash);
+    }
+
+    if (!isUsed('backgroundStatusKeyHash')) {
+      this.statusStorageFactory.removeStorage(
+        removedKeys.backgroundStatusKeyHash,
+      );
+    }
   };
 
   /**
@@ -249,13 +1227,22 @@ export class MobxQuery<TDefaultError = void> {
     }
 
     const query = createInstance({
+      key,
       onError: (createParams?.onError ||
         this.defaultErrorHandler) as OnError<TError>,
       enabledAutoFetch:
         createParams?.enabledAutoFetch ?? this.defaultEnabledAutoFetch,
       fetchPolicy: fetchPolicy,
+      staleTime: createParams?.staleTime ?? this.defaultStaleTime,
+      retry: createParams?.retry ?? this.defaultRetry,
+      retryDelay: createParams?.retryDelay ?? this.defaultRetryDelay,
+      focusManager: this.focusManager,
+      networkMode: createParams?.networkMode ?? this.defaultNetworkMode,
+      onlineManager: this.onlineManager,
+      executionGate: this.executionGate,
       dataStorage: this.queryDataStorageFactory.getStorage<TResult>(
         keys.dataKeyHash,
+        createParams?.observability ?? this.defaultObservability,
       ),
       statusStorage: this.statusStorageFactory.getStorage<TError>(
         keys.statusKeyHash,
@@ -265,15 +1252,21 @@ export class MobxQuery<TDefaultError = void> {
         TIsBackground
       >(
         keys.backgroundStatusKeyHash,
-        Boolean(createParams?.isBackground) as TIsBackground,
+        // cache-and-network квери обновляют данные в фоне,
+        // поэтому статусы обновления всегда записываются в фоновое хранилище
+        (Boolean(createParams?.isBackground) ||
+          fetchPolicy === 'cache-and-network') as TIsBackground,
       ),
       submitValidity:
-        // 'network-only' квери не будут подтверждать свою валидность,
+        // 'network-only' и 'no-cache' квери не будут подтверждать свою валидность,
         // следовательно, они всегда будут храниться как "слабые",
         // что позволит сборщику мусора удалять их из памяти при отсутствии ссылок
-        fetchPolicy !== 'network-only'
+        !this.isUncachedPolicy(fetchPolicy)
           ? () => this.submitValidity(keys.queryKeyHash)
           : undefined,
+      // инвалидированные данные перезапрашиваются из сети,
+      // а не берутся из результата, завершенного в пределах интервала дедупликации
+      onInvalidate: () => this.inFlightRequests.forget(keys.dataKeyHash),
     });
 
     this.queriesMap.set(
@@ -281,7 +1274,22 @@ export class MobxQuery<TDefaultError = void> {
       query as CachedQuery<unknown, unknown, false>,
     );
 
-    this.keys.set(keys.queryKeyHash, keys.queryKey);
+    this.keys.set(keys.queryKeyHash, keys);
+
+    this.refetchTriggers.set(keys.queryKeyHash, {
+      refetchOnFocus:
+        createParams?.refetchOnFocus ??
+        this.defaultRefetchTriggers.refetchOnFocus,
+      refetchOnReconnect:
+        createParams?.refetchOnReconnect ??
+        this.defaultRefetchTriggers.refetchOnReconnect,
+    });
+
+    this.watchUsage(
+      query as CachedQuery<unknown, unknown, boolean>,
+      keys.queryKeyHash,
+      createParams?.gcTime ?? this.defaultGcTime,
+    );
 
     return query;
   };
@@ -294,31 +1302,44 @@ export class MobxQuery<TDefaultError = void> {
     fetchPolicy: FetchPolicy,
     isBackground: boolean,
     type: QueryType,
-  ) => {
-    // C введением StrictMode в реакт 18, проявилась проблема,
-    // что network-only квери, созданные в одном реакт компоненте,
-    // создаются дважды (т.к. все хуки вызываются дважды)
-    // и т.к. мы не ограничиваем момент запроса,
-    // то можем получить эффект, что оба network-only квери
-    // делают по отдельному запросу к данным единомоментно.
-    // Для решения этой проблемы, добавляем уникальный ключ даты, с обнуляемыми милисекундами,
-    // что позволит создавать одинаковые network-only квери в течении одной секунды.
-    // Остается крайне редкий корнер кейс, когда разница между созданиями квери крайне мала,
-    // но все таки первый был создан в одной секунде, а последующее создание уже попало в следующую секунду.
-    // Этот кейс крайне маловероятен, и будет проявляться только в дев режиме с включенным StrictMode,
-    // поэтому мы пренебрегаем решением этой проблемы, в угоду упрощения.
-    const date =
-      fetchPolicy === 'network-only' ? new Date().setMilliseconds(0) : null;
-    const queryKey = [...rootKey, { fetchPolicy, date, isBackground, type }];
+  ): QueryKeys => {
+    const baseQueryKey = [...rootKey, { fetchPolicy, isBackground, type }];
+    // network-only и no-cache квери не переиспользуются дольше интервала дедупликации,
+    // поэтому каждый новый инстанс получает в ключ свой порядковый номер
+    const queryKey = this.isUncachedPolicy(fetchPolicy)
+      ? [
+          ...rootKey,
+          {
+            fetchPolicy,
+            instanceId: this.getInstanceId(this.serialize(baseQueryKey)),
+            isBackground,
+            type,
+          },
+        ]
+      : baseQueryKey;
     const queryKeyHash = this.serialize(queryKey);
-    const dataKeyHash = this.serialize([...rootKey, { type }]);
-    const statusKeyHash = this.serialize([...rootKey, { type }]);
+
+    // no-cache квери не делят данные и статусы с другими квери,
+    // поэтому их хранилища привязаны к самому инстансу
+    if (fetchPolicy === 'no-cache') {
+      return {
+        key: rootKey,
+        queryKey,
+        queryKeyHash,
+        statusKeyHash: queryKeyHash,
+        backgroundStatusKeyHash: queryKeyHash,
+        dataKeyHash: queryKeyHash,
+      };
+    }
+
+    const { dataKeyHash, statusKeyHash } = this.makeStorageKeys(rootKey, type);
     const backgroundStatusKeyHash = this.serialize([
       ...rootKey,
-      { type, isBackground },
+      { type, isBackground: true },
     ]);
 
     return {
+      key: rootKey,
       queryKey,
       queryKeyHash,
       statusKeyHash,
@@ -327,6 +1348,102 @@ export class MobxQuery<TDefaultError = void> {
     };
   };
 
+  /**
+   * Флаг политик, при которых квери не переиспользуются дольше интервала дедупликации
+   */
+  private isUncachedPolicy = (fetchPolicy: FetchPolicy) =>
+    fetchPolicy === 'network-only' || fetchPolicy === 'no-cache';
+
+  /**
+   * Метод получения порядкового номера network-only и no-cache квери,
+   * в пределах интервала дедупликации с момента создания предыдущего квери номер не меняется.
+   * C введением StrictMode в реакт 18 квери, созданные в одном компоненте, создаются дважды,
+   * интервал дедупликации позволяет в таком случае использовать один инстанс
+   */
+  private getInstanceId = (baseQueryKeyHash: KeyHash) => {
+    const now = this.now();
+    const lastInstance = this.lastInstances.get(baseQueryKeyHash);
+
+    if (lastInstance && !this.isInstanceExpired(lastInstance, now)) {
+      return lastInstance.instanceId;
+    }
+
+    this.lastInstanceId += 1;
+
+    this.lastInstances.set(baseQueryKeyHash, {
+      instanceId: this.lastInstanceId,
+      createdAt: now,
+    });
+
+    return this.lastInstanceId;
+  };
+
+  /**
+   * Флаг истечения интервала дедупликации с момента создания квери
+   */
+  private isInstanceExpired = (
+    { createdAt }: { createdAt: number },
+    now: number,
+  ) => now - createdAt >= this.dedupeInterval;
+
+  /**
+   * Метод удаления записей о квери, интервал дедупликации которых истек
+   */
+  private pruneLastInstances = () => {
+    const now = this.now();
+
+    [...this.lastInstances.entries()].forEach(([keyHash, lastInstance]) => {
+      if (this.isInstanceExpired(lastInstance, now)) {
+        this.lastInstances.delete(keyHash);
+      }
+    });
+  };
+
+  /**
+   * Метод получения представления квери, применяющего select к data.
+   * Остальные поля и методы представление берет у самого квери,
+   * поэтому select не влияет на идентификацию квери и не создает новых записей в кеше
+   */
+  private applySelect = <TQuery extends { data?: unknown }>(
+    query: TQuery,
+    select?: SelectParams<never, unknown>['select'],
+  ): TQuery => {
+    if (!select) {
+      return query;
+    }
+
+    const views = this.selectedViews.get(query) || new WeakMap();
+    const cachedView = views.get(select);
+
+    if (cachedView) {
+      return cachedView as TQuery;
+    }
+
+    const selectedData = computed(() => {
+      const { data } = query;
+
+      return data === undefined ? undefined : select(data as never);
+    });
+    const view: TQuery = Object.create(query, {
+      data: { get: () => selectedData.get() },
+    });
+
+    views.set(select, view);
+    this.selectedViews.set(query, views);
+
+    return view;
+  };
+
+  /**
+   * Метод для создания ключей к хранилищам данных и статусов,
+   * не зависящих от политики получения данных
+   */
+  private makeStorageKeys = (rootKey: CacheKey[], type: QueryType) => {
+    const dataKeyHash = this.serialize([...rootKey, { type }]);
+
+    return { dataKeyHash, statusKeyHash: dataKeyHash };
+  };
+
   private getBackgroundStatusStorage = <TError, TIsBackground extends boolean>(
     keyHash: KeyHash,
     hasBackground: TIsBackground,
@@ -335,6 +1452,57 @@ export class MobxQuery<TDefaultError = void> {
       ? this.statusStorageFactory.getStorage(keyHash)
       : null) as TIsBackground extends true ? StatusStorage<TError> : null;
 
+  /**
+   * Метод, оборачивающий executor квери так,
+   * чтобы все квери с одинаковыми данными исполняли не более одного запроса одновременно
+   */
+  private shareQueryExecutor = <TResult>(
+    key: CacheKey[],
+    executor: QueryExecutor<TResult>,
+    fetchPolicy?: FetchPolicy,
+  ): QueryExecutor<TResult> => {
+    const { dataKeyHash } = this.makeStorageKeys(key, Query.name);
+    const dedupeInterval = this.getDedupeInterval(fetchPolicy);
+
+    return (context) =>
+      this.inFlightRequests.execute(
+        dataKeyHash,
+        (signal) => executor({ ...context, signal }),
+        context.signal,
+        dedupeInterval,
+      );
+  };
+
+  /**
+   * Метод, оборачивающий executor инфинит квери так,
+   * чтобы все квери с одинаковыми данными исполняли не более одного запроса одновременно с одинаковыми параметрами
+   */
+  private shareInfiniteExecutor = <TResult>(
+    key: CacheKey[],
+    executor: InfiniteExecutor<TResult>,
+    fetchPolicy?: FetchPolicy,
+  ): InfiniteExecutor<TResult> => {
+    const { dataKeyHash } = this.makeStorageKeys(key, InfiniteQuery.name);
+    const dedupeInterval = this.getDedupeInterval(fetchPolicy);
+
+    return (params, context) =>
+      this.inFlightRequests.execute(
+        dataKeyHash + this.serialize(params),
+        (signal) => executor(params, { ...context, signal }),
+        context.signal,
+        dedupeInterval,
+      );
+  };
+
+  /**
+   * Результаты завершенных запросов переиспользуются только network-only и no-cache квери,
+   * т.к. остальные квери исполняют запрос только при отсутствии данных, либо при их устаревании
+   */
+  private getDedupeInterval = (fetchPolicy?: FetchPolicy) =>
+    this.isUncachedPolicy(fetchPolicy || this.defaultFetchPolicy)
+      ? this.dedupeInterval
+      : 0;
+
   /**
    * Метод создания стора, кешируется
    */
@@ -342,22 +1510,38 @@ export class MobxQuery<TDefaultError = void> {
     TResult,
     TError = TDefaultError,
     TIsBackground extends boolean = false,
+    TData = TResult,
+    TFetchPolicy extends FetchPolicy | undefined = undefined,
   >(
     key: CacheKey[],
     executor: QueryExecutor<TResult>,
-    params?: CreateQueryParams<TResult, TError, TIsBackground>,
+    params?: CreateQueryParams<TResult, TError, TIsBackground, TData> &
+      FetchPolicyParams<TFetchPolicy>,
   ) =>
-    this.getCachedQuery<TResult, TError, TIsBackground>(
-      key,
-      (internalParams) =>
-        new Query(executor, {
-          ...params,
-          ...internalParams,
-          dataStorage: internalParams.dataStorage as DataStorage<TResult>,
-        }),
-      Query.name,
-      params,
-    ) as Query<TResult, TError, TIsBackground>;
+    this.applySelect(
+      this.getCachedQuery<TResult, TError, TIsBackground>(
+        key,
+        (internalParams) =>
+          new Query(
+            this.shareQueryExecutor(key, executor, internalParams.fetchPolicy),
+            {
+              ...params,
+              ...internalParams,
+              dataStorage: internalParams.dataStorage as DataStorage<TResult>,
+            },
+          ),
+        Query.name,
+        params,
+      ),
+      params?.select,
+    ) as SelectedQuery<
+      Query<
+        TResult,
+        TError,
+        PolicyBackground<TIsBackground, TFetchPolicy, TDefaultFetchPolicy>
+      >,
+      TData
+    >;
 
   /**
    * Метод создания инфинит стора, кешируется
@@ -366,22 +1550,123 @@ export class MobxQuery<TDefaultError = void> {
     TResult,
     TError = TDefaultError,
     TIsBackground extends boolean = false,
+    TData = Array<TResult>,
+    TFetchPolicy extends FetchPolicy | undefined = undefined,
   >(
     key: CacheKey[],
     executor: InfiniteExecutor<TResult>,
-    params?: CreateInfiniteQueryParams<TResult, TError, TIsBackground>,
+    params?: CreateInfiniteQueryParams<TResult, TError, TIsBackground, TData> &
+      FetchPolicyParams<TFetchPolicy>,
   ) =>
-    this.getCachedQuery<TResult, TError, TIsBackground>(
-      key,
-      (internalParams) =>
-        new InfiniteQuery(executor, {
-          ...params,
-          ...internalParams,
-          dataStorage: internalParams.dataStorage as DataStorage<TResult[]>,
-        }),
-      InfiniteQuery.name,
-      params,
-    ) as InfiniteQuery<TResult, TError, TIsBackground>;
+    this.applySelect(
+      this.getCachedQuery<TResult, TError, TIsBackground>(
+        key,
+        (internalParams) =>
+          new InfiniteQuery(
+            this.shareInfiniteExecutor(
+              key,
+              executor,
+              internalParams.fetchPolicy,
+            ),
+            {
+              ...params,
+              ...internalParams,
+              dataStorage: internalParams.dataStorage as DataStorage<TResult[]>,
+            },
+          ),
+        InfiniteQuery.name,
+        params,
+      ),
+      params?.select,
+    ) as SelectedQuery<
+      InfiniteQuery<
+        TResult,
+        TError,
+        PolicyBackground<TIsBackground, TFetchPolicy, TDefaultFetchPolicy>
+      >,
+      TData
+    >;
+
+  /**
+   * Метод создания реактивного стора, ключ которого вычисляется из observable.
+   * При изменении ключа стор переключается на закешированный квери нового ключа,
+   * сам реактивный стор не кешируется
+   */
+  public createReactiveQuery = <
+    TResult,
+    TError = TDefaultError,
+    TIsBackground extends boolean = false,
+    TData = TResult,
+    TFetchPolicy extends FetchPolicy | undefined = undefined,
+  >(
+    getKey: () => CacheKey[],
+    getExecutor: (key: CacheKey[]) => QueryExecutor<TResult>,
+    {
+      keepPreviousData,
+      placeholderData,
+      ...params
+    }: CreateReactiveQueryParams<TResult, TError, TIsBackground, TData> &
+      FetchPolicyParams<TFetchPolicy> = {},
+  ) =>
+    new ReactiveQuery<
+      TResult,
+      TError,
+      PolicyBackground<TIsBackground, TFetchPolicy, TDefaultFetchPolicy>,
+      TData
+    >(
+      getKey,
+      (key) =>
+        this.createQuery<TResult, TError, TIsBackground, TData, TFetchPolicy>(
+          key,
+          getExecutor(key),
+          params,
+        ),
+      { keepPreviousData, placeholderData },
+    );
+
+  /**
+   * Метод создания реактивного инфинит стора, ключ которого вычисляется из observable.
+   * При изменении ключа стор переключается на закешированный квери нового ключа,
+   * сам реактивный стор не кешируется
+   */
+  public createReactiveInfiniteQuery = <
+    TResult,
+    TError = TDefaultError,
+    TIsBackground extends boolean = false,
+    TData = Array<TResult>,
+    TFetchPolicy extends FetchPolicy | undefined = undefined,
+  >(
+    getKey: () => CacheKey[],
+    getExecutor: (key: CacheKey[]) => InfiniteExecutor<TResult>,
+    {
+      keepPreviousData,
+      placeholderData,
+      ...params
+    }: CreateReactiveInfiniteQueryParams<
+      TResult,
+      TError,
+      TIsBackground,
+      TData
+    > &
+      FetchPolicyParams<TFetchPolicy> = {},
+  ) =>
+    new ReactiveInfiniteQuery<
+      TResult,
+      TError,
+      PolicyBackground<TIsBackground, TFetchPolicy, TDefaultFetchPolicy>,
+      TData
+    >(
+      getKey,
+      (key) =>
+        this.createInfiniteQuery<
+          TResult,
+          TError,
+          TIsBackground,
+          TData,
+          TFetchPolicy
+        >(key, getExecutor(key), params),
+      { keepPreviousData, placeholderData },
+    );
 
   /**
    * Метод создания мутации, не кешируется
@@ -392,10 +1677,15 @@ export class MobxQuery<TDefaultError = void> {
     TExecutorParams = void,
   >(
     executor: MutationExecutor<TResult, TExecutorParams>,
-    params?: MutationParams<TResult, TError>,
+    params?: Omit<MutationParams<TError>, 'onlineManager' | 'executionGate'>,
   ) =>
     new Mutation<TResult, TError, TExecutorParams>(executor, {
       ...params,
       onError: params?.onError || this.defaultErrorHandler,
+      retry: params?.retry ?? this.defaultRetry,
+      retryDelay: params?.retryDelay ?? this.defaultRetryDelay,
+      networkMode: params?.networkMode ?? this.defaultNetworkMode,
+      onlineManager: this.onlineManager,
+      executionGate: this.executionGate,
     });
 }
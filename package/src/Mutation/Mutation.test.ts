@@ -1,6 +1,8 @@
 import { describe, expect, it, vi } from 'vitest';
 import { when } from 'mobx';
 
+import { OnlineManager } from '../OnlineManager';
+
 import { Mutation } from './Mutation';
 
 describe('Mutation', () => {
@@ -102,7 +104,7 @@ describe('Mutation', () => {
 
     sut.sync();
     await when(() => !sut.isLoading);
-    expect(spyOnError).toBeCalledWith('foo');
+    expect(spyOnError).toBeCalledWith('foo', { meta: undefined });
   });
 
   it('Стандартный onError не вызывается при использовании дополнительного', async () => {
@@ -123,4 +125,99 @@ describe('Mutation', () => {
 
     expect(sut.background).toBeNull();
   });
+
+  it('Запрос повторяется заданное количество раз при использовании retry', async () => {
+    const executorSpy = vi.fn();
+    const sut = new Mutation(
+      () => {
+        executorSpy();
+
+        return Promise.reject('foo');
+      },
+      { retry: 2, retryDelay: 0 },
+    );
+
+    await sut.async().catch(() => {});
+    expect(executorSpy).toBeCalledTimes(3);
+    expect(sut.failureCount).toBe(3);
+    expect(sut.failureReason).toBe('foo');
+  });
+
+  describe('При отмене запроса', () => {
+    const createSut = () => {
+      const onError = vi.fn();
+      const sut = new Mutation(
+        (_: void, { signal }) =>
+          new Promise<string>((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+          }),
+        { onError },
+      );
+
+      return { sut, onError };
+    };
+
+    it('Статусы возвращаются в состояние до запроса', () => {
+      const { sut } = createSut();
+
+      sut.sync();
+      sut.cancel();
+      expect(sut.isLoading).toBeFalsy();
+      expect(sut.isIdle).toBeTruthy();
+    });
+
+    it('Обработчик ошибки не вызывается', async () => {
+      const { sut, onError } = createSut();
+
+      sut.sync();
+      sut.cancel();
+      await Promise.resolve();
+      expect(onError).not.toBeCalled();
+    });
+  });
+
+  describe('При использовании networkMode', () => {
+    const createOnlineManager = () => {
+      const target = new EventTarget();
+      const state = { isOnline: false };
+      const onlineManager = new OnlineManager({
+        target,
+        isOnline: () => state.isOnline,
+      });
+
+      const goOnline = () => {
+        state.isOnline = true;
+        target.dispatchEvent(new Event('online'));
+      };
+
+      return { onlineManager, goOnline };
+    };
+
+    it('Без сети мутация приостанавливается до ее восстановления', async () => {
+      const { onlineManager, goOnline } = createOnlineManager();
+      const executor = vi.fn((param: string) => Promise.resolve(param));
+      const sut = new Mutation(executor, { onlineManager });
+      const promise = sut.async('foo');
+
+      expect(executor).not.toBeCalled();
+      expect(sut.isPaused).toBeTruthy();
+      goOnline();
+      expect(sut.isPaused).toBeFalsy();
+      expect(sut.isLoading).toBeTruthy();
+      await expect(promise).resolves.toBe('foo');
+    });
+
+    it('В режиме always мутация исполняется без сети', () => {
+      const { onlineManager } = createOnlineManager();
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const sut = new Mutation(executor, {
+        onlineManager,
+        networkMode: 'always',
+      });
+
+      sut.sync();
+      expect(executor).toBeCalledTimes(1);
+      expect(sut.isPaused).toBeFalsy();
+    });
+  });
 });
@@ -1,22 +1,67 @@
 import { action, makeObservable } from 'mobx';
 
 import { AuxiliaryQuery } from '../AuxiliaryQuery';
-import type { QueryBaseActions, Sync, SyncParams } from '../types';
+import type {
+  ExecutorContext,
+  NetworkMode,
+  OnError,
+  QueryBaseActions,
+  QueryMeta,
+  Retry,
+  RetryDelay,
+  Sync,
+} from '../types';
 import { QueryContainer } from '../QueryContainer';
 import { StatusStorage } from '../StatusStorage';
+import { CancelledError } from '../CancelledError';
+import { type OnlineManager } from '../OnlineManager';
+import { type ExecutionGate } from '../ExecutionGate';
 
 /**
  * Исполнитель запроса
  */
 export type MutationExecutor<TResult, TParams> = (
   params: TParams,
+  context: ExecutorContext,
 ) => Promise<TResult>;
 
-export type MutationParams<TResult, TError> = {
+export type MutationParams<TError> = {
   /**
    * Обработчик ошибки, вызываемый по умолчанию
    */
-  onError?: SyncParams<TResult, TError>['onError'];
+  onError?: OnError<TError>;
+  /**
+   * Произвольные мета-данные, передаются в executor и в обработчик ошибки по умолчанию
+   */
+  meta?: QueryMeta;
+  /**
+   * Количество повторных попыток запроса после ошибки,
+   * либо предикат, определяющий необходимость повторной попытки
+   * @default 0
+   */
+  retry?: Retry<TError>;
+  /**
+   * Задержка в миллисекундах перед повторной попыткой запроса, либо функция ее вычисления
+   * @default экспоненциальная задержка со случайным разбросом
+   */
+  retryDelay?: RetryDelay<TError>;
+  /**
+   * Режим работы с сетью.
+   * @enum online - запросы исполняются только при наличии сети, без сети они приостанавливаются до ее восстановления
+   * @enum always - запросы исполняются независимо от наличия сети
+   * @enum offlineFirst - первая попытка запроса исполняется всегда, а повторные попытки без сети приостанавливаются до ее восстановления
+   * @default 'online'
+   */
+  networkMode?: NetworkMode;
+  /**
+   * Менеджер сети, по которому запросы приостанавливаются до восстановления сети.
+   * Без менеджера сеть считается доступной всегда
+   */
+  onlineManager?: OnlineManager;
+  /**
+   * Шлюз исполнения, по которому новые запросы приостанавливаются до возобновления
+   */
+  executionGate?: ExecutionGate;
 };
 
 /**
@@ -30,21 +75,41 @@ export class Mutation<TResult, TError = void, TExecutorParams = void>
   /**
    * Обработчик ошибки, вызываемый по умолчанию
    */
-  private readonly defaultOnError?: SyncParams<TResult, TError>['onError'];
+  private readonly defaultOnError?: OnError<TError>;
+
+  /**
+   * Произвольные мета-данные, переданные при создании
+   */
+  public readonly meta?: QueryMeta;
 
   constructor(
     private readonly executor: MutationExecutor<TResult, TExecutorParams>,
-    { onError }: MutationParams<TResult, TError> = {},
+    {
+      onError,
+      meta,
+      retry,
+      retryDelay,
+      networkMode,
+      onlineManager,
+      executionGate,
+    }: MutationParams<TError> = {},
   ) {
     const statusStorage = new StatusStorage<TError>();
 
     super(
       statusStorage,
       null,
-      new AuxiliaryQuery<TResult, TError>(statusStorage, null),
+      new AuxiliaryQuery<TResult, TError>(statusStorage, null, {
+        retry,
+        retryDelay,
+        networkMode,
+        onlineManager,
+        executionGate,
+      }),
     );
 
     this.defaultOnError = onError;
+    this.meta = meta;
     makeObservable(this, { async: action, sync: action });
   }
 
@@ -56,16 +121,22 @@ export class Mutation<TResult, TError = void, TExecutorParams = void>
 
     this.auxiliary
       .getUnifiedPromise(
-        () => this.executor(params as TExecutorParams),
+        (signal) =>
+          this.executor(params as TExecutorParams, { signal, meta: this.meta }),
         (resData) => {
           onSuccess?.(resData);
         },
       )
       .catch((e: TError) => {
+        // отмена запроса не является ошибкой
+        if (e instanceof CancelledError) {
+          return;
+        }
+
         if (onError) {
           onError(e);
         } else {
-          this.defaultOnError?.(e);
+          this.defaultOnError?.(e, { meta: this.meta });
         }
       });
   };
@@ -75,6 +146,17 @@ export class Mutation<TResult, TError = void, TExecutorParams = void>
    * предполагается, что нужно будет самостоятельно обрабатывать ошибку
    */
   public async = (params: TExecutorParams) => {
-    return this.auxiliary.getUnifiedPromise(() => this.executor(params));
+    return this.auxiliary.getUnifiedPromise((signal) =>
+      this.executor(params, { signal, meta: this.meta }),
+    );
+  };
+
+  /**
+   * Метод отмены текущего запроса.
+   * Статусы возвращаются в состояние до запроса, ответ не попадает в хранилище,
+   * а обработчики ошибок не вызываются
+   */
+  public cancel = () => {
+    this.auxiliary.cancel();
   };
 }
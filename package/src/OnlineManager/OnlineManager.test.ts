@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { OnlineManager } from './OnlineManager';
+
+describe('OnlineManager', () => {
+  it('Подписчик уведомляется о восстановлении сети', () => {
+    const target = new EventTarget();
+    const manager = new OnlineManager({ target, isOnline: () => true });
+    const listener = vi.fn();
+
+    manager.subscribe(listener);
+    target.dispatchEvent(new Event('online'));
+    expect(listener).toBeCalledTimes(1);
+  });
+
+  it('Подписчик не уведомляется о потере сети', () => {
+    const target = new EventTarget();
+    const manager = new OnlineManager({ target, isOnline: () => false });
+    const listener = vi.fn();
+
+    manager.subscribe(listener);
+    target.dispatchEvent(new Event('offline'));
+    target.dispatchEvent(new Event('online'));
+    expect(listener).not.toBeCalled();
+    expect(manager.isOnline).toBeFalsy();
+  });
+
+  it('Сеть по умолчанию считается доступной вне браузера', () => {
+    expect(new OnlineManager().isOnline).toBeTruthy();
+  });
+});
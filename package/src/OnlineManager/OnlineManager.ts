@@ -0,0 +1,39 @@
+import {
+  EnvironmentManager,
+  getDefaultEventTarget,
+} from '../EnvironmentManager';
+
+export type OnlineManagerParams = {
+  /**
+   * Источник событий online
+   * @default window
+   */
+  target?: EventTarget;
+  /**
+   * Функция проверки наличия сети
+   * @default navigator.onLine
+   */
+  isOnline?: () => boolean;
+};
+
+const isNavigatorOnline = () =>
+  typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Менеджер сети, уведомляет подписчиков о восстановлении сетевого соединения
+ */
+export class OnlineManager extends EnvironmentManager {
+  constructor({
+    target = getDefaultEventTarget(),
+    isOnline = isNavigatorOnline,
+  }: OnlineManagerParams = {}) {
+    super(target, ['online'], isOnline);
+  }
+
+  /**
+   * Флаг, обозначающий наличие сети
+   */
+  public get isOnline() {
+    return this.isStateReached;
+  }
+}
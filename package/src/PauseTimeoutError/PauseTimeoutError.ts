@@ -0,0 +1,9 @@
+/**
+ * Ошибка, с которой завершается запрос, не дождавшийся возобновления запросов за отведенное время
+ */
+export class PauseTimeoutError extends Error {
+  constructor() {
+    super('Превышено время ожидания возобновления запросов');
+    this.name = 'PauseTimeoutError';
+  }
+}
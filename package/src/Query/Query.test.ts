@@ -1,10 +1,16 @@
-import { describe, expect, it, vi } from 'vitest';
-import { when } from 'mobx';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { autorun, getObserverTree, observable, runInAction, when } from 'mobx';
 
 import { DataStorage } from '../DataStorage';
 import { StatusStorage } from '../StatusStorage';
+import { CancelledError } from '../CancelledError';
+import { FocusManager } from '../FocusManager';
+import { OnlineManager } from '../OnlineManager';
+import { ExecutionGate } from '../ExecutionGate';
+import { PauseTimeoutError } from '../PauseTimeoutError';
+import type { ExecutorContext } from '../types';
 
-import { Query } from './Query';
+import { Query, type QueryParams } from './Query';
 
 describe('Query', () => {
   const getDataStorage = <TData = unknown>() => new DataStorage<TData>();
@@ -94,6 +100,26 @@ describe('Query', () => {
       await query.async();
       expect(submitSpy).toBeCalled();
     });
+
+    it('Время обновления и источник данных запоминаются', async () => {
+      const query = createQuery();
+
+      await query.async();
+      expect(query.dataUpdatedAt).toBeTypeOf('number');
+      expect(query.dataSource).toBe('network');
+    });
+
+    it('Пустое значение ответа считается данными', async () => {
+      const query = new Query(() => Promise.resolve(0), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        placeholderData: 42,
+      });
+
+      await query.async();
+      expect(query.data).toBe(0);
+      expect(query.isPlaceholderData).toBeFalsy();
+    });
   });
 
   describe('При провальном запросе', () => {
@@ -108,6 +134,19 @@ describe('Query', () => {
       expect(query.isError).toBeTruthy();
     });
 
+    it('Время ошибки запоминается и сбрасывается при сбросе квери', async () => {
+      const query = new Query(() => Promise.reject('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
+      expect(query.errorUpdatedAt).toBeUndefined();
+      await query.async().catch((e) => e);
+      expect(query.errorUpdatedAt).toBeTypeOf('number');
+      query.reset();
+      expect(query.errorUpdatedAt).toBeUndefined();
+    });
+
     it('Обработчик ошибки вызывается', async () => {
       const onError = vi.fn();
       const query = new Query(() => Promise.reject('foo'), {
@@ -134,7 +173,11 @@ describe('Query', () => {
       await when(() => !query.isLoading);
       await when(() => query.error !== undefined);
       expect(query.error).toBe('foo');
-      expect(onDefaultError).toBeCalledWith('foo');
+
+      expect(onDefaultError).toBeCalledWith('foo', {
+        key: [],
+        meta: undefined,
+      });
     });
 
     it('Обработчик ошибки по умолчанию не вызывается при использовании async', async () => {
@@ -169,16 +212,27 @@ describe('Query', () => {
   });
 
   describe('При использовании флага enabledAutoFetch', () => {
-    it('Автоматический запрос данных при обращении к data', async () => {
+    it('Автоматический запрос данных при наблюдении за data', async () => {
       const query = new Query(() => Promise.resolve('foo'), {
         enabledAutoFetch: true,
         dataStorage: getDataStorage(),
         statusStorage: getStatusStorage(),
       });
+      const dispose = autorun(() => query.data);
 
-      // эмулируем обращение к data
-      JSON.stringify(query.data);
       expect(query.isLoading).toBeTruthy();
+      dispose();
+    });
+
+    it('Однократное обращение к data вне реакций не запускает запрос', () => {
+      const query = new Query(() => Promise.resolve('foo'), {
+        enabledAutoFetch: true,
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
+      JSON.stringify(query.data);
+      expect(query.isLoading).toBeFalsy();
     });
 
     it('Автоматический запрос данных не происходит при обращении к data и при enabledAutoFetch: false', async () => {
@@ -216,20 +270,76 @@ describe('Query', () => {
         },
       );
 
-      // эмулируем считывание данных
-      JSON.stringify(store.data);
-      await when(() => !store.isLoading);
+      const dispose = autorun(() => store.data);
+
+      await when(() => store.isError);
       expect(insideExecutor).toBeCalled();
-      // эмулируем считывание данных
-      JSON.stringify(store.data);
+      // эмулируем повторное наблюдение за данными
+      dispose();
+      autorun(() => store.data)();
       await when(() => !store.isLoading);
       // executor больше не вызывается
       expect(insideExecutor).toBeCalledTimes(1);
     });
   });
 
+  describe('При наблюдении за квери', () => {
+    const createQuery = () =>
+      new Query(() => Promise.resolve('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
+    it('Квери неактивен, пока за ним не наблюдают', () => {
+      const query = createQuery();
+
+      JSON.stringify(query.data);
+      expect(query.isActive).toBeFalsy();
+      expect(query.observedFieldsCount).toBe(0);
+    });
+
+    it('Квери активен, пока за его данными наблюдают', () => {
+      const query = createQuery();
+      const dispose = autorun(() => query.data);
+
+      expect(query.isActive).toBeTruthy();
+      dispose();
+      expect(query.isActive).toBeFalsy();
+    });
+
+    it('Наблюдение за статусами учитывается в количестве наблюдаемых полей', () => {
+      const query = createQuery();
+      const dispose = autorun(() => [query.data, query.isLoading]);
+
+      expect(query.observedFieldsCount).toBe(2);
+      dispose();
+      expect(query.observedFieldsCount).toBe(0);
+    });
+
+    it('Количество наблюдаемых полей изменяется одним действием', () => {
+      const query = createQuery();
+      const onChange = vi.fn();
+      const disposeWatcher = autorun(() => onChange(query.observedFieldsCount));
+      const dispose = autorun(() => [query.data, query.isLoading, query.error]);
+
+      expect(onChange.mock.calls).toStrictEqual([[0], [3]]);
+      dispose();
+      disposeWatcher();
+    });
+
+    it('Активность квери отслеживается реакциями', () => {
+      const query = createQuery();
+      const onChange = vi.fn();
+      const disposeWatcher = autorun(() => onChange(query.isActive));
+
+      autorun(() => query.isLoading)();
+      disposeWatcher();
+      expect(onChange.mock.calls).toStrictEqual([[false], [true], [false]]);
+    });
+  });
+
   describe('При использовании invalidate', () => {
-    it('Считывание data приводит к перезапросу данных', async () => {
+    it('Наблюдение за data приводит к перезапросу данных', async () => {
       const query = new Query(
         // executor эмулирует постоянно меняющиеся данные
         () => Promise.resolve(Math.random()),
@@ -240,9 +350,9 @@ describe('Query', () => {
         },
       );
 
-      // эмулируем считывание данных
-      JSON.stringify(query.data);
-      //ожидаем, что после считывания данных загрузка началась
+      const dispose = autorun(() => query.data);
+
+      //ожидаем, что после начала наблюдения за данными загрузка началась
       expect(query.isLoading).toBeTruthy();
       await when(() => !query.isLoading);
 
@@ -250,9 +360,10 @@ describe('Query', () => {
 
       expect(typeof firstValue).toBe('number');
       query.invalidate();
-      // эмулируем считывание данных
-      JSON.stringify(query.data);
+      // ожидаем, что перезапрос начался сам, т.к. за данными наблюдают
+      expect(query.isLoading).toBeTruthy();
       await when(() => !query.isLoading);
+      dispose();
       // ожидаем, что число изменилось
       expect(query.data !== firstValue).toBeTruthy();
     });
@@ -291,272 +402,1480 @@ describe('Query', () => {
     });
   });
 
-  it('Данные синхронизируются при использовании одного dataStorage', async () => {
-    const unifiedDataStorage = getDataStorage();
-    const unifiedStatusStorage = getStatusStorage();
-
-    const queryA = new Query(() => Promise.resolve('foo'), {
-      dataStorage: unifiedDataStorage,
-      statusStorage: unifiedStatusStorage,
-    });
-
-    const queryB = new Query(() => Promise.resolve('bar'), {
-      dataStorage: unifiedDataStorage,
-      statusStorage: unifiedStatusStorage,
+  describe('При использовании staleTime', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
     });
 
-    await queryA.async();
-    expect(queryB.data).toBe('foo');
-  });
-
-  it('Статусы синхронизируются при использовании одного statusStorage', async () => {
-    const unifiedDataStorage = getDataStorage();
-    const unifiedStatusStorage = getStatusStorage();
-
-    const queryA = new Query(() => Promise.resolve('foo'), {
-      dataStorage: unifiedDataStorage,
-      statusStorage: unifiedStatusStorage,
+    afterEach(() => {
+      vi.useRealTimers();
     });
 
-    const queryB = new Query(() => Promise.resolve('bar'), {
-      dataStorage: unifiedDataStorage,
-      statusStorage: unifiedStatusStorage,
-    });
+    const createQuery = (staleTime?: number) => {
+      const executorSpy = vi.fn();
+      const query = new Query(
+        () => {
+          executorSpy();
 
-    await queryA.async();
-    expect(queryB.isSuccess).toBeTruthy();
-  });
+          return Promise.resolve('foo');
+        },
+        {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          enabledAutoFetch: true,
+          staleTime,
+        },
+      );
 
-  it('Статусы не синхронизируются при использовании разных statusStorage', async () => {
-    const unifiedDataStorage = getDataStorage();
+      return { query, executorSpy };
+    };
 
-    const queryA = new Query(() => Promise.resolve('foo'), {
-      dataStorage: unifiedDataStorage,
-      statusStorage: getStatusStorage(),
-      backgroundStatusStorage: null,
-    });
+    it('По умолчанию данные не устаревают', async () => {
+      const { query, executorSpy } = createQuery();
 
-    const queryB = new Query(() => Promise.resolve('bar'), {
-      dataStorage: unifiedDataStorage,
-      statusStorage: getStatusStorage(),
-      backgroundStatusStorage: null,
+      await query.async();
+      vi.advanceTimersByTime(1000 * 60 * 60);
+      await query.async();
+      expect(query.isStale).toBeFalsy();
+      expect(executorSpy).toBeCalledTimes(1);
     });
 
-    await queryA.async();
-    expect(queryB.isSuccess).toBeFalsy();
-  });
-
-  describe('При использовании backgroundStatusStorage', () => {
-    const buildQuery = () =>
-      new Query<string, unknown, true>(() => Promise.resolve('foo'), {
-        dataStorage: getDataStorage(),
-        statusStorage: getStatusStorage(),
-        backgroundStatusStorage: getStatusStorage(),
-      });
-
-    it('Статус isSuccess == true при успешном первом запросе', async () => {
-      const query = buildQuery();
+    it('Данные не перезапрашиваются до истечения staleTime', async () => {
+      const { query, executorSpy } = createQuery(1000);
 
       await query.async();
-      expect(query.isSuccess).toBeTruthy();
+      vi.advanceTimersByTime(500);
+      await query.async();
+      expect(query.isStale).toBeFalsy();
+      expect(executorSpy).toBeCalledTimes(1);
     });
 
-    it('Статус isError == false при успешном первом запросе', async () => {
-      const query = buildQuery();
+    it('Флаг isStale включается по истечении staleTime', async () => {
+      const { query } = createQuery(1000);
 
       await query.async();
-      expect(query.isError).toBeFalsy();
+      vi.advanceTimersByTime(1000);
+      expect(query.isStale).toBeTruthy();
     });
 
-    it('Статус error == undefined при успешном первом запросе', async () => {
-      const query = buildQuery();
+    it('Вызов async приводит к перезапросу устаревших данных', async () => {
+      const { query, executorSpy } = createQuery(1000);
 
       await query.async();
-      expect(query.error).toBeUndefined();
+      vi.advanceTimersByTime(1000);
+      await query.async();
+      expect(executorSpy).toBeCalledTimes(2);
+      expect(query.isStale).toBeFalsy();
     });
 
-    it('Статус isLoading == true при запуске первого запроса', async () => {
-      const query = buildQuery();
+    it('Вызов sync приводит к перезапросу устаревших данных', async () => {
+      const { query, executorSpy } = createQuery(1000);
 
-      query.async();
-      expect(query.isLoading).toBeTruthy();
+      await query.async();
+      vi.advanceTimersByTime(1000);
+      query.sync();
+      expect(executorSpy).toBeCalledTimes(2);
     });
 
-    it('Статус background.isSuccess == false при успешном первом запросе', async () => {
-      const query = buildQuery();
+    it('Считывание data приводит к перезапросу устаревших данных', async () => {
+      const { query, executorSpy } = createQuery(1000);
+      const dispose = autorun(() => JSON.stringify(query.data));
 
-      await query.async();
-      expect(query.background.isSuccess).toBeFalsy();
+      await when(() => query.isSuccess);
+      vi.advanceTimersByTime(1000);
+      await when(() => !query.isLoading);
+      expect(executorSpy).toBeCalledTimes(2);
+      dispose();
     });
 
-    it('Статус background.isError == false при успешном первом запросе', async () => {
-      const query = buildQuery();
+    it('При нулевом staleTime данные устаревают сразу после получения', async () => {
+      const { query, executorSpy } = createQuery(0);
 
       await query.async();
-      expect(query.background.isError).toBeFalsy();
+      expect(query.isStale).toBeTruthy();
+      await query.async();
+      expect(executorSpy).toBeCalledTimes(2);
     });
 
-    it('Статус background.isLoading == false при старте первого запроса', async () => {
-      const query = buildQuery();
+    it('Устаревание синхронизируется при использовании одного dataStorage', async () => {
+      const dataStorage = getDataStorage<string>();
+      const queryA = new Query(() => Promise.resolve('foo'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        staleTime: 1000,
+      });
+      const queryB = new Query(() => Promise.resolve('bar'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        staleTime: 1000,
+      });
 
-      query.async();
-      expect(query.background.isLoading).toBeFalsy();
+      await queryA.async();
+      vi.advanceTimersByTime(1000);
+      expect(queryB.isStale).toBeTruthy();
+      await queryA.async();
+      expect(queryB.isStale).toBeFalsy();
     });
 
-    it('Статус background.error == undefined при успешном первом запросе', async () => {
-      const query = buildQuery();
+    it('Квери без наблюдателей не подписывается на общее хранилище данных', async () => {
+      const dataStorage = getDataStorage<string>();
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        staleTime: 1000,
+      });
 
       await query.async();
-      expect(query.background.error).toBeUndefined();
-    });
 
-    it('Статус isLoading не изменяется при повторных запросах', async () => {
-      const query = buildQuery();
+      expect(getObserverTree(dataStorage, 'dataUpdatedAt').observers).toBe(
+        undefined,
+      );
 
-      await query.async();
-      query.invalidate();
-      query.async();
-      expect(query.isLoading).toBeFalsy();
-    });
+      const dispose = autorun(() => query.isStale);
 
-    it('Статус background.isLoading изменяется при повторных запросах', async () => {
-      const query = buildQuery();
+      expect(
+        getObserverTree(dataStorage, 'dataUpdatedAt').observers,
+      ).toBeDefined();
 
-      await query.async();
-      query.invalidate();
-      query.async();
-      expect(query.background.isLoading).toBeTruthy();
+      dispose();
+
+      expect(getObserverTree(dataStorage, 'dataUpdatedAt').observers).toBe(
+        undefined,
+      );
     });
 
-    it('Статус background.isSuccess == true при повторном успешном запросе', async () => {
-      const query = buildQuery();
+    it('Флаг isStale пересчитывается для наблюдателей по истечении staleTime', async () => {
+      const { query } = createQuery(1000);
+      const staleness: boolean[] = [];
 
       await query.async();
-      query.invalidate();
-      await query.async();
-      expect(query.background.isSuccess).toBeTruthy();
+
+      const dispose = autorun(() => staleness.push(query.isStale));
+
+      vi.advanceTimersByTime(1000);
+      dispose();
+      expect(staleness).toStrictEqual([false, true]);
     });
+  });
 
-    const buildSuccessAndFailQuery = () => {
+  describe('При использовании retry', () => {
+    // executor, завершающийся ошибкой заданное количество раз
+    const createFailingExecutor = (failuresCount: number) => {
+      const executorSpy = vi.fn();
       let count = 0;
 
-      return new Query<string, unknown, true>(
-        () => {
-          count++;
+      const executor = () => {
+        executorSpy();
+        count++;
 
-          if (count <= 1) {
-            return Promise.resolve('foo');
-          }
+        if (count <= failuresCount) {
+          return Promise.reject(`error ${count}`);
+        }
 
-          return Promise.reject('bar');
-        },
-        {
-          dataStorage: getDataStorage(),
-          statusStorage: getStatusStorage(),
-          backgroundStatusStorage: getStatusStorage(),
-        },
-      );
+        return Promise.resolve('foo');
+      };
+
+      return { executor, executorSpy };
     };
 
-    it('Статус isSuccess == true при первом успешном и последующих провальных запросах', async () => {
-      const query = buildSuccessAndFailQuery();
+    it('Запрос повторяется заданное количество раз', async () => {
+      const { executor, executorSpy } = createFailingExecutor(Infinity);
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        retry: 2,
+        retryDelay: 0,
+      });
 
-      await query.async();
-      query.invalidate();
       await query.async().catch(() => {});
-      expect(query.isSuccess).toBeTruthy();
+      expect(executorSpy).toBeCalledTimes(3);
+      expect(query.isError).toBeTruthy();
+      expect(query.error).toBe('error 3');
     });
 
-    it('Статус isError == false при первом успешном и последующих провальных запросах', async () => {
-      const query = buildSuccessAndFailQuery();
+    it('Данные успешной повторной попытки попадают в data', async () => {
+      const { executor } = createFailingExecutor(1);
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        retry: 2,
+        retryDelay: 0,
+      });
 
       await query.async();
-      query.invalidate();
-      await query.async().catch(() => {});
-      expect(query.isError).toBeFalsy();
+      expect(query.data).toBe('foo');
+      expect(query.isSuccess).toBeTruthy();
+      expect(query.failureCount).toBe(0);
+      expect(query.failureReason).toBeUndefined();
     });
 
-    it('Статус error == undefined при первом успешном и последующих провальных запросах', async () => {
-      const query = buildSuccessAndFailQuery();
+    it('Повторные попытки прекращаются, если предикат вернул false', async () => {
+      const { executor, executorSpy } = createFailingExecutor(Infinity);
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        retry: (_, error) => error !== 'error 2',
+        retryDelay: 0,
+      });
 
-      await query.async();
-      query.invalidate();
       await query.async().catch(() => {});
-      expect(query.error).toBeUndefined();
+      expect(executorSpy).toBeCalledTimes(2);
     });
 
-    it('Статус background.isSuccess == false при первом успешном и последующих провальных запросах', async () => {
-      const query = buildSuccessAndFailQuery();
+    it('Обработчики отмены попыток и задержек удаляются после их завершения', async () => {
+      const addListener = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+      const removeListener = vi.spyOn(
+        AbortSignal.prototype,
+        'removeEventListener',
+      );
+      const { executor } = createFailingExecutor(2);
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        retry: 2,
+        retryDelay: 0,
+      });
 
       await query.async();
-      query.invalidate();
-      await query.async().catch(() => {});
-      expect(query.background.isSuccess).toBeFalsy();
-    });
 
-    it('Статус background.isError == true при первом успешном и последующих провальных запросах', async () => {
-      const query = buildSuccessAndFailQuery();
+      const addedCount = addListener.mock.calls.length;
+      const removedCount = removeListener.mock.calls.length;
 
-      await query.async();
-      query.invalidate();
+      addListener.mockRestore();
+      removeListener.mockRestore();
+      // три попытки и две задержки между ними
+      expect(addedCount).toBe(5);
+      expect(removedCount).toBe(5);
+    });
+
+    it('Обработчик ошибки вызывается однократно после всех попыток', async () => {
+      const onError = vi.fn();
+      const { executor } = createFailingExecutor(Infinity);
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        retry: 2,
+        retryDelay: 0,
+      });
+
+      query.sync({ onError });
+      await vi.waitFor(() => expect(onError).toBeCalled());
+      expect(onError).toBeCalledTimes(1);
+      expect(onError).toBeCalledWith('error 3');
+    });
+
+    describe('Во время ожидания повторной попытки', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      const createQuery = () => {
+        const { executor, executorSpy } = createFailingExecutor(Infinity);
+        const retryDelay = vi.fn(() => 1000);
+        const query = new Query(executor, {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          retry: 3,
+          retryDelay,
+        });
+
+        query.sync();
+
+        return { query, executorSpy, retryDelay };
+      };
+
+      it('Количество и причина неудачных попыток доступны в квери', async () => {
+        const { query } = createQuery();
+
+        await when(() => query.failureCount === 1);
+        expect(query.failureReason).toBe('error 1');
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(query.failureCount).toBe(2);
+        expect(query.failureReason).toBe('error 2');
+      });
+
+      it('Флаг загрузки остается включенным', async () => {
+        const { query } = createQuery();
+
+        await when(() => query.failureCount === 1);
+        expect(query.isLoading).toBeTruthy();
+        expect(query.isError).toBeFalsy();
+      });
+
+      it('Повторный запрос происходит по истечении retryDelay', async () => {
+        const { query, executorSpy, retryDelay } = createQuery();
+
+        await when(() => query.failureCount === 1);
+        expect(retryDelay).toBeCalledWith(1, 'error 1');
+        await vi.advanceTimersByTimeAsync(999);
+        expect(executorSpy).toBeCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(executorSpy).toBeCalledTimes(2);
+      });
+    });
+  });
+
+  describe('При отмене запроса', () => {
+    // executor, ответ которого контролируется снаружи и который игнорирует сигнал отмены
+    const createControlledQuery = (onError?: (e: unknown) => void) => {
+      let resolveRequest: (value: string) => void = () => {};
+      const executorSpy = vi.fn<[ExecutorContext], Promise<string>>(
+        () =>
+          new Promise((resolve) => {
+            resolveRequest = resolve;
+          }),
+      );
+      const query = new Query(executorSpy, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        onError,
+      });
+
+      return {
+        query,
+        executorSpy,
+        resolveRequest: (value: string) => resolveRequest(value),
+      };
+    };
+
+    it('Сигнал, переданный в executor, срабатывает', () => {
+      const { query, executorSpy } = createControlledQuery();
+
+      query.sync();
+      query.cancel();
+      expect(executorSpy.mock.calls[0][0].signal.aborted).toBeTruthy();
+    });
+
+    it('Статусы возвращаются в состояние до первого запроса', () => {
+      const { query } = createControlledQuery();
+
+      query.sync();
+      query.cancel();
+      expect(query.isLoading).toBeFalsy();
+      expect(query.isIdle).toBeTruthy();
+    });
+
+    it('Статусы возвращаются в состояние до повторного запроса', async () => {
+      const { query, resolveRequest } = createControlledQuery();
+      const promise = query.async();
+
+      resolveRequest('foo');
+      await promise;
+      query.invalidate();
+      query.sync();
+      query.cancel();
+      expect(query.isLoading).toBeFalsy();
+      expect(query.isSuccess).toBeTruthy();
+    });
+
+    it('Ответ отмененного запроса не попадает в data', async () => {
+      const { query, resolveRequest } = createControlledQuery();
+      const promise = query.async();
+
+      query.cancel();
+      resolveRequest('foo');
+      await promise.catch(() => {});
+      expect(query.data).toBeUndefined();
+    });
+
+    it('Обработчики ошибки не вызываются', async () => {
+      const onDefaultError = vi.fn();
+      const onError = vi.fn();
+      const { query } = createControlledQuery(onDefaultError);
+
+      query.sync();
+      query.sync({ onError });
+      query.cancel();
+      await Promise.resolve();
+      expect(onDefaultError).not.toBeCalled();
+      expect(onError).not.toBeCalled();
+    });
+
+    it('Async завершается ошибкой CancelledError', async () => {
+      const { query } = createControlledQuery();
+      const promise = query.async();
+
+      query.cancel();
+      await expect(promise).rejects.toBeInstanceOf(CancelledError);
+    });
+
+    it('Новый запрос после отмены исполняется', async () => {
+      const { query, executorSpy, resolveRequest } = createControlledQuery();
+
+      query.sync();
+      query.cancel();
+
+      const promise = query.async();
+
+      resolveRequest('bar');
+      await promise;
+      expect(executorSpy).toBeCalledTimes(2);
+      expect(query.data).toBe('bar');
+    });
+  });
+
+  it('Данные синхронизируются при использовании одного dataStorage', async () => {
+    const unifiedDataStorage = getDataStorage();
+    const unifiedStatusStorage = getStatusStorage();
+
+    const queryA = new Query(() => Promise.resolve('foo'), {
+      dataStorage: unifiedDataStorage,
+      statusStorage: unifiedStatusStorage,
+    });
+
+    const queryB = new Query(() => Promise.resolve('bar'), {
+      dataStorage: unifiedDataStorage,
+      statusStorage: unifiedStatusStorage,
+    });
+
+    await queryA.async();
+    expect(queryB.data).toBe('foo');
+  });
+
+  it('Статусы синхронизируются при использовании одного statusStorage', async () => {
+    const unifiedDataStorage = getDataStorage();
+    const unifiedStatusStorage = getStatusStorage();
+
+    const queryA = new Query(() => Promise.resolve('foo'), {
+      dataStorage: unifiedDataStorage,
+      statusStorage: unifiedStatusStorage,
+    });
+
+    const queryB = new Query(() => Promise.resolve('bar'), {
+      dataStorage: unifiedDataStorage,
+      statusStorage: unifiedStatusStorage,
+    });
+
+    await queryA.async();
+    expect(queryB.isSuccess).toBeTruthy();
+  });
+
+  it('Статусы не синхронизируются при использовании разных statusStorage', async () => {
+    const unifiedDataStorage = getDataStorage();
+
+    const queryA = new Query(() => Promise.resolve('foo'), {
+      dataStorage: unifiedDataStorage,
+      statusStorage: getStatusStorage(),
+      backgroundStatusStorage: null,
+    });
+
+    const queryB = new Query(() => Promise.resolve('bar'), {
+      dataStorage: unifiedDataStorage,
+      statusStorage: getStatusStorage(),
+      backgroundStatusStorage: null,
+    });
+
+    await queryA.async();
+    expect(queryB.isSuccess).toBeFalsy();
+  });
+
+  describe('При использовании backgroundStatusStorage', () => {
+    const buildQuery = () =>
+      new Query<string, unknown, true>(() => Promise.resolve('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        backgroundStatusStorage: getStatusStorage(),
+      });
+
+    it('Статус isSuccess == true при успешном первом запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      expect(query.isSuccess).toBeTruthy();
+    });
+
+    it('Статус isError == false при успешном первом запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      expect(query.isError).toBeFalsy();
+    });
+
+    it('Статус error == undefined при успешном первом запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      expect(query.error).toBeUndefined();
+    });
+
+    it('Статус isLoading == true при запуске первого запроса', async () => {
+      const query = buildQuery();
+
+      query.async();
+      expect(query.isLoading).toBeTruthy();
+    });
+
+    it('Статус background.isSuccess == false при успешном первом запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      expect(query.background.isSuccess).toBeFalsy();
+    });
+
+    it('Статус background.isError == false при успешном первом запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      expect(query.background.isError).toBeFalsy();
+    });
+
+    it('Статус background.isLoading == false при старте первого запроса', async () => {
+      const query = buildQuery();
+
+      query.async();
+      expect(query.background.isLoading).toBeFalsy();
+    });
+
+    it('Статус background.error == undefined при успешном первом запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      expect(query.background.error).toBeUndefined();
+    });
+
+    it('Статус isLoading не изменяется при повторных запросах', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      query.invalidate();
+      query.async();
+      expect(query.isLoading).toBeFalsy();
+    });
+
+    it('Статус background.isLoading изменяется при повторных запросах', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      query.invalidate();
+      query.async();
+      expect(query.background.isLoading).toBeTruthy();
+    });
+
+    it('Статус background.isLoading == false после завершения повторного запроса', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async();
+      expect(query.background.isLoading).toBeFalsy();
+    });
+
+    it('Статус background.isSuccess == true при повторном успешном запросе', async () => {
+      const query = buildQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async();
+      expect(query.background.isSuccess).toBeTruthy();
+    });
+
+    const buildSuccessAndFailQuery = () => {
+      let count = 0;
+
+      return new Query<string, unknown, true>(
+        () => {
+          count++;
+
+          if (count <= 1) {
+            return Promise.resolve('foo');
+          }
+
+          return Promise.reject('bar');
+        },
+        {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          backgroundStatusStorage: getStatusStorage(),
+        },
+      );
+    };
+
+    it('Статус isSuccess == true при первом успешном и последующих провальных запросах', async () => {
+      const query = buildSuccessAndFailQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async().catch(() => {});
+      expect(query.isSuccess).toBeTruthy();
+    });
+
+    it('Статус isError == false при первом успешном и последующих провальных запросах', async () => {
+      const query = buildSuccessAndFailQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async().catch(() => {});
+      expect(query.isError).toBeFalsy();
+    });
+
+    it('Статус error == undefined при первом успешном и последующих провальных запросах', async () => {
+      const query = buildSuccessAndFailQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async().catch(() => {});
+      expect(query.error).toBeUndefined();
+    });
+
+    it('Статус background.isSuccess == false при первом успешном и последующих провальных запросах', async () => {
+      const query = buildSuccessAndFailQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async().catch(() => {});
+      expect(query.background.isSuccess).toBeFalsy();
+    });
+
+    it('Статус background.isError == true при первом успешном и последующих провальных запросах', async () => {
+      const query = buildSuccessAndFailQuery();
+
+      await query.async();
+      query.invalidate();
       await query.async().catch(() => {});
       expect(query.background.isError).toBeTruthy();
     });
 
-    it('Статус background.error содержит ошибку при первом успешном и последующих провальных запросах', async () => {
-      const query = buildSuccessAndFailQuery();
+    it('Статус background.error содержит ошибку при первом успешном и последующих провальных запросах', async () => {
+      const query = buildSuccessAndFailQuery();
+
+      await query.async();
+      query.invalidate();
+      await query.async().catch(() => {});
+      expect(query.background.error).toBe('bar');
+    });
+  });
+
+  describe('При использовании политики network-only', () => {
+    const createQuery = () => {
+      // счетчик для эмуляции меняющихся данных
+      let counter = 0;
+
+      return new Query(
+        () => {
+          counter++;
+
+          return Promise.resolve(counter);
+        },
+        {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          fetchPolicy: 'network-only',
+        },
+      );
+    };
+
+    it('Данные запрашиваются при каждом вызове async', async () => {
+      const query = createQuery();
+
+      await query.async();
+      // ожидаем что данные после первого запроса попадут в квери как обычно
+      expect(query.data).toBe(1);
+      // запускаем сразу второй запрос, который по политике cache-first должен быть проигнорирован,
+      // но т.к. мы используем networkOnly запрос все таки произойдет
+      await query.async();
+      expect(query.data).toBe(2);
+    });
+
+    it('Данные запрашиваются при каждом вызове sync', async () => {
+      const query = createQuery();
+
+      query.sync();
+      await when(() => !query.isLoading);
+      // ожидаем что данные после первого запроса попадут в квери как обычно
+      expect(query.data).toBe(1);
+      // запускаем сразу второй запрос, который по политике cache-first должен быть проигнорирован,
+      // но т.к. мы используем networkOnly запрос все таки произойдет
+      query.sync();
+      await when(() => !query.isLoading);
+      // ожидаем что новые данные после второго запроса так же попадут в квери
+      expect(query.data).toBe(2);
+    });
+  });
+
+  describe('При использовании политики cache-and-network', () => {
+    const createQuery = (dataStorage = getDataStorage<number>()) => {
+      // счетчик для эмуляции меняющихся данных
+      let counter = 0;
+      const executor = vi.fn(() => {
+        counter++;
+
+        return Promise.resolve(counter);
+      });
+
+      const query = new Query<number, unknown, true>(executor, {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        backgroundStatusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-and-network',
+      });
+
+      return { query, executor };
+    };
+
+    it('Async сразу возвращает данные из кеша и обновляет их в фоне', async () => {
+      const { query } = createQuery();
+
+      await query.async();
+
+      const promise = query.async();
+
+      expect(query.background.isLoading).toBeTruthy();
+      await expect(promise).resolves.toBe(1);
+      await when(() => !query.background.isLoading);
+      expect(query.data).toBe(2);
+    });
+
+    it('Статус isLoading не изменяется при обновлении данных', async () => {
+      const { query } = createQuery();
+
+      await query.async();
+      query.sync();
+      expect(query.isLoading).toBeFalsy();
+      expect(query.isSuccess).toBeTruthy();
+    });
+
+    it('Наблюдение за data обновляет данные, уже находящиеся в кеше', async () => {
+      const dataStorage = getDataStorage<number>();
+
+      dataStorage.setData(10);
+
+      const executor = vi.fn(() => Promise.resolve(20));
+      const query = new Query<number, unknown, true>(executor, {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        backgroundStatusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-and-network',
+        enabledAutoFetch: true,
+      });
+      const dispose = autorun(() => query.data);
+
+      expect(query.data).toBe(10);
+      expect(executor).toBeCalledTimes(1);
+      await when(() => query.data === 20);
+      dispose();
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Каждое новое наблюдение за data обновляет данные из сети', async () => {
+      const executor = vi.fn(() => Promise.resolve(20));
+      const query = new Query<number, unknown, true>(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        backgroundStatusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-and-network',
+        enabledAutoFetch: true,
+      });
+
+      const disposeFirst = autorun(() => query.data);
+
+      await when(() => query.isSuccess);
+      disposeFirst();
+
+      const disposeSecond = autorun(() => query.data);
+
+      expect(query.background.isLoading).toBeTruthy();
+      await when(() => !query.background.isLoading);
+      disposeSecond();
+      expect(executor).toBeCalledTimes(2);
+    });
+  });
+
+  describe('При использовании политики cache-only', () => {
+    it('Запрос не происходит при вызове sync и async', async () => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-only',
+      });
+
+      query.sync();
+      await query.async();
+      expect(executor).not.toBeCalled();
+      expect(query.isIdle).toBeTruthy();
+    });
+
+    it('Данные берутся из кеша', async () => {
+      const dataStorage = getDataStorage<string>();
+
+      dataStorage.setData('foo');
+
+      const onSuccess = vi.fn();
+      const query = new Query(() => Promise.resolve('bar'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        fetchPolicy: 'cache-only',
+        enabledAutoFetch: true,
+      });
+
+      query.sync({ onSuccess });
+      expect(onSuccess).toBeCalledWith('foo');
+      expect(query.data).toBe('foo');
+      await expect(query.async()).resolves.toBe('foo');
+    });
+  });
+
+  describe('При использовании политики no-cache', () => {
+    it('Данные запрашиваются при каждом вызове async', async () => {
+      let counter = 0;
+      const query = new Query(
+        () => {
+          counter++;
+
+          return Promise.resolve(counter);
+        },
+        {
+          dataStorage: getDataStorage(),
+          statusStorage: getStatusStorage(),
+          fetchPolicy: 'no-cache',
+        },
+      );
+
+      await query.async();
+      expect(query.data).toBe(1);
+      await query.async();
+      expect(query.data).toBe(2);
+    });
+  });
+
+  describe('При использовании enabled', () => {
+    const createQuery = (enabled: boolean | (() => boolean)) => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        enabledAutoFetch: true,
+        enabled,
+      });
+
+      return { query, executor };
+    };
+
+    it('Выключенный квери не исполняет запрос при вызове sync и обращении к data', () => {
+      const { query, executor } = createQuery(false);
+
+      query.sync();
+
+      const unobserve = autorun(() => query.data);
+
+      unobserve();
+      expect(executor).not.toBeCalled();
+      expect(query.isIdle).toBeTruthy();
+      expect(query.isEnabled).toBeFalsy();
+    });
+
+    it('Квери запрашивает данные при включении, если за data наблюдают', async () => {
+      const enabledStore = observable({ isEnabled: false });
+      const { query, executor } = createQuery(() => enabledStore.isEnabled);
+
+      const unobserve = autorun(() => query.data);
+
+      expect(executor).not.toBeCalled();
+
+      runInAction(() => {
+        enabledStore.isEnabled = true;
+      });
+
+      await when(() => query.isSuccess);
+      unobserve();
+      expect(executor).toBeCalledTimes(1);
+      expect(query.data).toBe('foo');
+    });
+
+    it('Отложенный sync исполняется при включении квери', async () => {
+      const enabledStore = observable({ isEnabled: false });
+      const { query, executor } = createQuery(() => enabledStore.isEnabled);
+      const onSuccess = vi.fn();
+
+      query.sync({ onSuccess });
+      expect(executor).not.toBeCalled();
+
+      runInAction(() => {
+        enabledStore.isEnabled = true;
+      });
+
+      await when(() => query.isSuccess);
+      expect(onSuccess).toBeCalledWith('foo');
+    });
+
+    it('Отложенный sync не исполняется после отмены', () => {
+      const enabledStore = observable({ isEnabled: false });
+      const { query, executor } = createQuery(() => enabledStore.isEnabled);
+
+      query.sync();
+      query.cancel();
+
+      runInAction(() => {
+        enabledStore.isEnabled = true;
+      });
+
+      expect(executor).not.toBeCalled();
+    });
+
+    it('Инвалидация не приводит к перезапросу, пока квери выключен', async () => {
+      const enabledStore = observable({ isEnabled: true });
+      const { query, executor } = createQuery(() => enabledStore.isEnabled);
 
       await query.async();
+
+      runInAction(() => {
+        enabledStore.isEnabled = false;
+      });
+
+      const unobserve = autorun(() => query.data);
+
       query.invalidate();
-      await query.async().catch(() => {});
-      expect(query.background.error).toBe('bar');
+      await Promise.resolve();
+      expect(executor).toBeCalledTimes(1);
+
+      runInAction(() => {
+        enabledStore.isEnabled = true;
+      });
+
+      await when(() => !query.isStale);
+      unobserve();
+      expect(executor).toBeCalledTimes(2);
     });
   });
 
-  describe('При использовании политики network-only', () => {
-    const createQuery = () => {
-      // счетчик для эмуляции меняющихся данных
+  describe('При использовании refetchInterval', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createQuery = (
+      params: Partial<QueryParams<number, unknown>> = {},
+    ) => {
       let counter = 0;
+      const executor = vi.fn(() => Promise.resolve(++counter));
+      const query = new Query<number, unknown>(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        ...params,
+      });
 
-      return new Query(
-        () => {
-          counter++;
+      return { query, executor };
+    };
 
-          return Promise.resolve(counter);
-        },
+    const createFocusManager = () => {
+      const target = new EventTarget();
+      const state = { isFocused: true };
+      const focusManager = new FocusManager({
+        target,
+        isFocused: () => state.isFocused,
+      });
+
+      const setFocused = (isFocused: boolean) => {
+        state.isFocused = isFocused;
+        target.dispatchEvent(new Event('visibilitychange'));
+      };
+
+      return { focusManager, setFocused };
+    };
+
+    it('Данные перезапрашиваются с интервалом, пока за квери наблюдают', async () => {
+      const { query, executor } = createQuery({ refetchInterval: 1000 });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(executor).toBeCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(executor).toBeCalledTimes(2);
+      expect(query.data).toBe(2);
+      unobserve();
+    });
+
+    it('Данные не перезапрашиваются, если за квери не наблюдают', async () => {
+      const { executor } = createQuery({ refetchInterval: 1000 });
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(executor).not.toBeCalled();
+    });
+
+    it('Сброс квери начинает отсчет интервала заново', async () => {
+      const { query, executor } = createQuery({ refetchInterval: 1000 });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(500);
+      query.reset();
+      await vi.advanceTimersByTimeAsync(500);
+      expect(executor).not.toBeCalled();
+      await vi.advanceTimersByTimeAsync(500);
+      expect(executor).toBeCalledTimes(1);
+      unobserve();
+    });
+
+    it('Опрос не возобновляется после stopPolling', async () => {
+      const { query, executor } = createQuery({ refetchInterval: 1000 });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      query.stopPolling();
+      await vi.advanceTimersByTimeAsync(5000);
+      unobserve();
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Опрос останавливается, когда за квери перестают наблюдать', async () => {
+      const { query, executor } = createQuery({ refetchInterval: 1000 });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      unobserve();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Опрос не идет, пока квери выключен', async () => {
+      const { query, executor } = createQuery({
+        refetchInterval: 1000,
+        enabled: false,
+      });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      unobserve();
+      expect(executor).not.toBeCalled();
+    });
+
+    it('Опрос останавливается, когда функция интервала возвращает false', async () => {
+      const { query, executor } = createQuery({
+        refetchInterval: (data) => (data === 2 ? false : 1000),
+      });
+      const unobserve = autorun(() => query.data);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      unobserve();
+      expect(executor).toBeCalledTimes(2);
+      expect(query.data).toBe(2);
+    });
+
+    it('Опрос приостанавливается на скрытой странице и возобновляется при возвращении', async () => {
+      const { focusManager, setFocused } = createFocusManager();
+      const { query, executor } = createQuery({
+        refetchInterval: 1000,
+        focusManager,
+      });
+      const unobserve = autorun(() => query.data);
+
+      setFocused(false);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(executor).not.toBeCalled();
+      setFocused(true);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(executor).toBeCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1000);
+      unobserve();
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Опрос продолжается на скрытой странице при refetchIntervalInBackground', async () => {
+      const { focusManager, setFocused } = createFocusManager();
+      const { query, executor } = createQuery({
+        refetchInterval: 1000,
+        refetchIntervalInBackground: true,
+        focusManager,
+      });
+      const unobserve = autorun(() => query.data);
+
+      setFocused(false);
+      await vi.advanceTimersByTimeAsync(2000);
+      unobserve();
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Статусы опроса записываются в фоновое хранилище', async () => {
+      const query = new Query<number, unknown, true>(() => Promise.resolve(1), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        backgroundStatusStorage: getStatusStorage(),
+        refetchInterval: 1000,
+      });
+      const unobserve = autorun(() => query.data);
+
+      await query.async();
+      vi.advanceTimersByTime(1000);
+      expect(query.isLoading).toBeFalsy();
+      expect(query.background?.isLoading).toBeTruthy();
+      await vi.advanceTimersByTimeAsync(0);
+      unobserve();
+      expect(query.background?.isSuccess).toBeTruthy();
+    });
+  });
+
+  describe('При использовании networkMode', () => {
+    const createOnlineManager = (isOnline: boolean) => {
+      const target = new EventTarget();
+      const state = { isOnline };
+      const onlineManager = new OnlineManager({
+        target,
+        isOnline: () => state.isOnline,
+      });
+
+      const goOnline = () => {
+        state.isOnline = true;
+        target.dispatchEvent(new Event('online'));
+      };
+
+      return { onlineManager, goOnline };
+    };
+
+    const createQuery = (
+      params: Partial<QueryParams<string, unknown>> = {},
+      executor = vi.fn(() => Promise.resolve('foo')),
+    ) => {
+      const query = new Query<string, unknown>(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        ...params,
+      });
+
+      return { query, executor };
+    };
+
+    it('Без сети запрос приостанавливается до ее восстановления', async () => {
+      const { onlineManager, goOnline } = createOnlineManager(false);
+      const onError = vi.fn();
+      const { query, executor } = createQuery({ onlineManager, onError });
+
+      query.sync();
+      expect(executor).not.toBeCalled();
+      expect(query.isPaused).toBeTruthy();
+      expect(query.isLoading).toBeFalsy();
+      goOnline();
+      expect(query.isPaused).toBeFalsy();
+      expect(query.isLoading).toBeTruthy();
+      await when(() => query.isSuccess);
+      expect(executor).toBeCalledTimes(1);
+      expect(query.data).toBe('foo');
+      expect(onError).not.toBeCalled();
+    });
+
+    it('Запрос исполняется сразу при наличии сети', () => {
+      const { onlineManager } = createOnlineManager(true);
+      const { query, executor } = createQuery({ onlineManager });
+
+      query.sync();
+      expect(executor).toBeCalledTimes(1);
+      expect(query.isPaused).toBeFalsy();
+    });
+
+    it('В режиме always запрос исполняется без сети', () => {
+      const { onlineManager } = createOnlineManager(false);
+      const { query, executor } = createQuery({
+        onlineManager,
+        networkMode: 'always',
+      });
+
+      query.sync();
+      expect(executor).toBeCalledTimes(1);
+      expect(query.isPaused).toBeFalsy();
+    });
+
+    it('В режиме offlineFirst без сети приостанавливаются только повторные попытки', async () => {
+      const { onlineManager, goOnline } = createOnlineManager(false);
+      const executor = vi
+        .fn()
+        .mockReturnValueOnce(Promise.reject('error'))
+        .mockReturnValue(Promise.resolve('foo'));
+      const { query } = createQuery(
+        { onlineManager, networkMode: 'offlineFirst', retry: 1, retryDelay: 0 },
+        executor,
+      );
+
+      query.sync();
+      expect(executor).toBeCalledTimes(1);
+      await when(() => query.isPaused);
+      goOnline();
+      await when(() => query.isSuccess);
+      expect(executor).toBeCalledTimes(2);
+    });
+
+    it('Обработчик отмены ожидания сети удаляется после ее восстановления', async () => {
+      const { onlineManager, goOnline } = createOnlineManager(false);
+      const { query } = createQuery({ onlineManager });
+      const addListener = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+      const removeListener = vi.spyOn(
+        AbortSignal.prototype,
+        'removeEventListener',
+      );
+
+      query.sync();
+      goOnline();
+      await when(() => query.isSuccess);
+
+      const addedCount = addListener.mock.calls.length;
+      const removedCount = removeListener.mock.calls.length;
+
+      addListener.mockRestore();
+      removeListener.mockRestore();
+      // ожидание сети и попытка запроса
+      expect(addedCount).toBe(2);
+      expect(removedCount).toBe(2);
+    });
+
+    it('Отмена приостановленного запроса восстанавливает статусы', async () => {
+      const { onlineManager, goOnline } = createOnlineManager(false);
+      const { query, executor } = createQuery({ onlineManager });
+      const promise = query.async();
+
+      query.cancel();
+      await expect(promise).rejects.toBeInstanceOf(CancelledError);
+      expect(query.isPaused).toBeFalsy();
+      expect(query.isIdle).toBeTruthy();
+      goOnline();
+      expect(executor).not.toBeCalled();
+    });
+
+    it('Приостановка фонового обновления записывается в фоновое хранилище', () => {
+      const query = new Query<string, unknown, true>(
+        () => Promise.resolve('foo'),
         {
           dataStorage: getDataStorage(),
           statusStorage: getStatusStorage(),
-          fetchPolicy: 'network-only',
+          backgroundStatusStorage: getStatusStorage(),
+          onlineManager: new OnlineManager({ isOnline: () => false }),
         },
       );
+
+      query.forceUpdate('bar');
+      query.invalidate();
+      query.sync();
+      expect(query.isPaused).toBeFalsy();
+      expect(query.isSuccess).toBeTruthy();
+      expect(query.background?.isPaused).toBeTruthy();
+    });
+  });
+
+  describe('При использовании executionGate', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createQuery = (executionGate: ExecutionGate) => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = new Query<string, unknown>(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        executionGate,
+      });
+
+      return { query, executor };
     };
 
-    it('Данные запрашиваются при каждом вызове async', async () => {
-      const query = createQuery();
+    it('Запрос приостанавливается до возобновления запросов', async () => {
+      const executionGate = new ExecutionGate();
+      const { query, executor } = createQuery(executionGate);
+
+      executionGate.pause();
+      query.sync();
+      expect(executor).not.toBeCalled();
+      expect(query.isPaused).toBeTruthy();
+      expect(query.isLoading).toBeFalsy();
+      executionGate.resume();
+      await when(() => query.isSuccess);
+      expect(executor).toBeCalledTimes(1);
+      expect(query.isPaused).toBeFalsy();
+    });
+
+    it('Запрос завершается ошибкой по истечении времени ожидания', async () => {
+      vi.useFakeTimers();
+
+      const executionGate = new ExecutionGate();
+      const { query, executor } = createQuery(executionGate);
+
+      executionGate.pause({ timeout: 1000 });
+
+      const promise = query.async();
 
+      vi.advanceTimersByTime(1000);
+      await expect(promise).rejects.toBeInstanceOf(PauseTimeoutError);
+      expect(executor).not.toBeCalled();
+      expect(query.isError).toBeTruthy();
+      expect(query.isPaused).toBeFalsy();
+    });
+  });
+
+  describe('При использовании placeholderData', () => {
+    it('Данные-заполнитель возвращаются до получения ответа', async () => {
+      const dataStorage = getDataStorage<string>();
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        placeholderData: 'placeholder',
+      });
+
+      expect(query.data).toBe('placeholder');
+      expect(query.isPlaceholderData).toBeTruthy();
       await query.async();
-      // ожидаем что данные после первого запроса попадут в квери как обычно
-      expect(query.data).toBe(1);
-      // запускаем сразу второй запрос, который по политике cache-first должен быть проигнорирован,
-      // но т.к. мы используем networkOnly запрос все таки произойдет
+      expect(query.data).toBe('foo');
+      expect(query.isPlaceholderData).toBeFalsy();
+    });
+
+    it('Данные-заполнитель не записываются в хранилище', () => {
+      const dataStorage = getDataStorage<string>();
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        placeholderData: () => 'placeholder',
+      });
+
+      expect(query.data).toBe('placeholder');
+      expect(dataStorage.data).toBeUndefined();
+    });
+
+    it('Флаг isPlaceholderData false без данных-заполнителя', () => {
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
+      expect(query.isPlaceholderData).toBeFalsy();
+    });
+  });
+
+  describe('При использовании initialData', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('Начальные данные записываются в хранилище без запроса', async () => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const dataStorage = getDataStorage<string>();
+      const query = new Query(executor, {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        initialData: 'initial',
+      });
+
+      expect(dataStorage.data).toBe('initial');
+      expect(query.dataSource).toBe('initial');
+      expect(query.isSuccess).toBeTruthy();
+      await expect(query.async()).resolves.toBe('initial');
+      expect(executor).not.toBeCalled();
+    });
+
+    it('Начальные данные не применяются, если в хранилище уже есть данные', () => {
+      const dataStorage = getDataStorage<string>();
+      const initialData = vi.fn(() => 'initial');
+
+      dataStorage.setData('foo');
+
+      const query = new Query(() => Promise.resolve('bar'), {
+        dataStorage,
+        statusStorage: getStatusStorage(),
+        initialData,
+      });
+
+      expect(query.data).toBe('foo');
+      expect(initialData).not.toBeCalled();
+    });
+
+    it('Устаревшие начальные данные перезапрашиваются', async () => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        initialData: 'initial',
+        initialDataUpdatedAt: Date.now() - 2000,
+        staleTime: 1000,
+      });
+
+      expect(query.isStale).toBeTruthy();
+      await expect(query.async()).resolves.toBe('foo');
+      expect(executor).toBeCalledTimes(1);
+    });
+
+    it('Начальные данные устаревают по истечении staleTime от initialDataUpdatedAt', () => {
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        initialData: () => 'initial',
+        initialDataUpdatedAt: Date.now() - 500,
+        staleTime: 1000,
+      });
+
+      expect(query.isStale).toBeFalsy();
+      vi.advanceTimersByTime(500);
+      expect(query.isStale).toBeTruthy();
+    });
+
+    it('Устаревшие начальные данные перезапрашиваются при наблюдении с нулевым staleTime', async () => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        initialData: 'seed',
+        staleTime: 0,
+        enabledAutoFetch: true,
+      });
+
+      const dispose = autorun(() => query.data);
+
+      await vi.runAllTimersAsync();
+      expect(executor).toBeCalledTimes(1);
+      expect(query.data).toBe('foo');
+      dispose();
+    });
+
+    it('Данные перезапрашиваются только один раз за наблюдение с нулевым staleTime', async () => {
+      const executor = vi.fn(() => Promise.resolve('foo'));
+      const query = new Query(executor, {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+        initialData: 'seed',
+        staleTime: 0,
+        enabledAutoFetch: true,
+      });
+
+      const dispose = autorun(() => query.data);
+
+      await vi.runAllTimersAsync();
+      dispose();
+      expect(executor).toBeCalledTimes(1);
+    });
+  });
+
+  describe('При сбросе', () => {
+    it('Данные и статусы возвращаются в исходное состояние', async () => {
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
+
       await query.async();
-      expect(query.data).toBe(2);
+      query.invalidate();
+      query.reset();
+      expect(query.data).toBeUndefined();
+      expect(query.isIdle).toBeTruthy();
+      expect(query.isSuccess).toBeFalsy();
+      expect(query.isStale).toBeFalsy();
     });
 
-    it('Данные запрашиваются при каждом вызове sync', async () => {
-      const query = createQuery();
+    it('Ответ текущего запроса не попадает в хранилище', async () => {
+      const query = new Query(() => Promise.resolve('foo'), {
+        dataStorage: getDataStorage(),
+        statusStorage: getStatusStorage(),
+      });
 
-      query.sync();
-      await when(() => !query.isLoading);
-      // ожидаем что данные после первого запроса попадут в квери как обычно
-      expect(query.data).toBe(1);
-      // запускаем сразу второй запрос, который по политике cache-first должен быть проигнорирован,
-      // но т.к. мы используем networkOnly запрос все таки произойдет
-      query.sync();
-      await when(() => !query.isLoading);
-      // ожидаем что новые данные после второго запроса так же попадут в квери
-      expect(query.data).toBe(2);
+      const promise = query.async();
+
+      query.reset();
+      await expect(promise).rejects.toBeInstanceOf(CancelledError);
+      expect(query.data).toBeUndefined();
+      expect(query.isLoading).toBeFalsy();
     });
   });
 
@@ -583,6 +1902,7 @@ describe('Query', () => {
 
       query.forceUpdate('foo');
       expect(query.data).toBe('foo');
+      expect(query.dataSource).toBe('forceUpdate');
     });
 
     it('Запрос не происходит', () => {
@@ -599,5 +1919,13 @@ describe('Query', () => {
       expect(query.isSuccess).toBeTruthy();
       expect(query.isError).toBeFalsy();
     });
+
+    it('Данные вычисляются на основе текущих при передаче функции', () => {
+      const { query } = createQuery();
+
+      query.forceUpdate('foo');
+      query.forceUpdate((prevData) => `${prevData}-bar`);
+      expect(query.data).toBe('foo-bar');
+    });
   });
 });
@@ -1,15 +1,47 @@
-import { action, computed, makeObservable, when } from 'mobx';
+import {
+  type IReactionDisposer,
+  action,
+  computed,
+  makeObservable,
+  onBecomeObserved,
+  onBecomeUnobserved,
+  reaction,
+  runInAction,
+} from 'mobx';
 
 import { AuxiliaryQuery } from '../AuxiliaryQuery';
-import type { FetchPolicy, QueryBaseActions, Sync, SyncParams } from '../types';
-import type { DataStorage } from '../DataStorage';
+import type {
+  CacheKey,
+  DataUpdater,
+  Enabled,
+  FetchPolicy,
+  InitialData,
+  InvalidateQueryParams,
+  NetworkMode,
+  OnError,
+  PlaceholderData,
+  QueryBaseActions,
+  QueryExecutorContext,
+  QueryMeta,
+  RefetchInterval,
+  Retry,
+  RetryDelay,
+  Sync,
+} from '../types';
+import type { DataSource, DataStorage } from '../DataStorage';
 import { QueryContainer } from '../QueryContainer';
 import { type StatusStorage } from '../StatusStorage';
+import { CancelledError } from '../CancelledError';
+import { type FocusManager } from '../FocusManager';
+import { type OnlineManager } from '../OnlineManager';
+import { type ExecutionGate } from '../ExecutionGate';
 
 /**
  * Исполнитель запроса
  */
-export type QueryExecutor<TResult> = () => Promise<TResult>;
+export type QueryExecutor<TResult> = (
+  context: QueryExecutorContext,
+) => Promise<TResult>;
 
 export type QueryParams<
   TResult,
@@ -19,17 +51,101 @@ export type QueryParams<
   /**
    * Обработчик ошибки, вызываемый по умолчанию
    */
-  onError?: SyncParams<TResult, TError>['onError'];
+  onError?: OnError<TError>;
   /**
-   * Флаг, отвечающий за автоматический запрос данных при обращении к полю data
+   * Ключ квери, передается в executor и в обработчик ошибки по умолчанию
+   * @default []
+   */
+  key?: CacheKey[];
+  /**
+   * Произвольные мета-данные, передаются в executor и в обработчик ошибки по умолчанию
+   */
+  meta?: QueryMeta;
+  /**
+   * Флаг, отвечающий за автоматический запрос данных при наблюдении за полем data
    */
   enabledAutoFetch?: boolean;
+  /**
+   * Флаг доступности запросов, либо функция его вычисления, отслеживаемая mobx.
+   * Пока квери выключен, sync, автоматический запрос и перезапрос после инвалидации не исполняются,
+   * а после включения квери запросит данные самостоятельно
+   * @default true
+   */
+  enabled?: Enabled;
+  /**
+   * Данные-заполнитель, возвращаемые в data, пока в хранилище нет данных,
+   * либо функция их вычисления на основе предыдущих данных.
+   * Предыдущие данные передаются реактивным квери при смене ключа, для отдельного квери они отсутствуют.
+   * Данные-заполнитель не записываются в хранилище
+   */
+  placeholderData?: PlaceholderData<TResult>;
+  /**
+   * Начальные данные, либо функция их ленивого вычисления.
+   * Записываются в хранилище при создании квери, только если в нем еще нет данных
+   */
+  initialData?: InitialData<TResult>;
+  /**
+   * Время обновления начальных данных в миллисекундах, по нему вычисляется устаревание начальных данных
+   * @default Date.now()
+   */
+  initialDataUpdatedAt?: number;
   /**
    * Политика получения данных.
    * @enum cache-first - данные сначала берутся из кеша, если их нет, тогда идет обращение к сети, ответ записывается в кэш
    * @enum network-only - данные всегда берутся из сети, при этом ответ записывается в кэш
+   * @enum cache-and-network - данные сразу берутся из кеша и одновременно обновляются из сети, статусы обновления записываются в фоновое хранилище
+   * @enum cache-only - данные берутся только из кеша, обращения к сети не происходит
+   * @enum no-cache - данные всегда берутся из сети, при этом ответ не записывается в кэш
    */
   fetchPolicy?: FetchPolicy;
+  /**
+   * Время в миллисекундах, по истечении которого данные считаются устаревшими и будут перезапрошены
+   * @default Infinity
+   */
+  staleTime?: number;
+  /**
+   * Количество повторных попыток запроса после ошибки,
+   * либо предикат, определяющий необходимость повторной попытки
+   * @default 0
+   */
+  retry?: Retry<TError>;
+  /**
+   * Задержка в миллисекундах перед повторной попыткой запроса, либо функция ее вычисления
+   * @default экспоненциальная задержка со случайным разбросом
+   */
+  retryDelay?: RetryDelay<TError>;
+  /**
+   * Интервал периодического перезапроса данных в миллисекундах,
+   * либо функция его вычисления на основе текущих данных, возвращающая false для остановки опроса.
+   * Опрос идет, только пока за квери наблюдают
+   */
+  refetchInterval?: RefetchInterval<TResult>;
+  /**
+   * Флаг, отвечающий за продолжение периодического перезапроса, пока страница скрыта
+   * @default false
+   */
+  refetchIntervalInBackground?: boolean;
+  /**
+   * Менеджер фокуса, по которому периодический перезапрос приостанавливается на скрытой странице
+   */
+  focusManager?: FocusManager;
+  /**
+   * Режим работы с сетью.
+   * @enum online - запросы исполняются только при наличии сети, без сети они приостанавливаются до ее восстановления
+   * @enum always - запросы исполняются независимо от наличия сети
+   * @enum offlineFirst - первая попытка запроса исполняется всегда, а повторные попытки без сети приостанавливаются до ее восстановления
+   * @default 'online'
+   */
+  networkMode?: NetworkMode;
+  /**
+   * Менеджер сети, по которому запросы приостанавливаются до восстановления сети.
+   * Без менеджера сеть считается доступной всегда
+   */
+  onlineManager?: OnlineManager;
+  /**
+   * Шлюз исполнения, по которому новые запросы приостанавливаются до возобновления
+   */
+  executionGate?: ExecutionGate;
   /**
    * Инстанс хранилища данных
    */
@@ -48,6 +164,10 @@ export type QueryParams<
    * Колбэк, вызываемый при успешном завершении запроса, подразумевается использование, для подтверждения валидности данных, чтобы квери не был удален из памяти
    */
   submitValidity?: () => void;
+  /**
+   * Колбэк, вызываемый при инвалидации данных, подразумевается использование для сброса переиспользуемых результатов запросов
+   */
+  onInvalidate?: () => void;
 };
 
 /**
@@ -71,13 +191,28 @@ export class Query<
   /**
    * Обработчик ошибки, вызываемый по умолчанию
    */
-  private defaultOnError?: SyncParams<TResult, TError>['onError'];
+  private defaultOnError?: OnError<TError>;
+
+  /**
+   * Ключ квери
+   */
+  private readonly key: CacheKey[];
+
+  /**
+   * Произвольные мета-данные, переданные при создании
+   */
+  public readonly meta?: QueryMeta;
 
   /**
-   * Флаг, отвечающий за автоматический запрос данных при обращении к полю data
+   * Флаг, отвечающий за автоматический запрос данных при наблюдении за полем data
    */
   private enabledAutoFetch?: boolean;
 
+  /**
+   * Данные-заполнитель, либо функция их вычисления
+   */
+  private readonly placeholderData?: PlaceholderData<TResult>;
+
   /**
    * Стандартное поведение политики кеширования
    */
@@ -88,16 +223,42 @@ export class Query<
    */
   private readonly submitValidity?: () => void;
 
+  /**
+   * Колбэк, вызываемый при инвалидации данных
+   */
+  private readonly onInvalidate?: () => void;
+
+  /**
+   * Диспоузер реакции автоматического запроса данных
+   */
+  private disposeAutoFetch?: IReactionDisposer;
+
   constructor(
     private readonly executor: QueryExecutor<TResult>,
     {
       onError,
+      key = [],
+      meta,
       enabledAutoFetch,
+      enabled,
+      placeholderData,
+      initialData,
+      initialDataUpdatedAt,
       fetchPolicy,
+      staleTime,
+      retry,
+      retryDelay,
+      refetchInterval,
+      refetchIntervalInBackground,
+      focusManager,
+      networkMode,
+      onlineManager,
+      executionGate,
       dataStorage,
       statusStorage,
       backgroundStatusStorage = null,
       submitValidity,
+      onInvalidate,
     }: QueryParams<TResult, TError, TIsBackground>,
   ) {
     super(
@@ -106,42 +267,247 @@ export class Query<
       new AuxiliaryQuery<TResult, TError>(
         statusStorage,
         backgroundStatusStorage,
+        {
+          staleTime,
+          retry,
+          retryDelay,
+          enabled,
+          networkMode,
+          onlineManager,
+          executionGate,
+        },
       ),
     );
 
     this.defaultOnError = onError;
+    this.key = key;
+    this.meta = meta;
     this.enabledAutoFetch = enabledAutoFetch;
+    this.placeholderData = placeholderData;
     this.defaultFetchPolicy = fetchPolicy;
     this.storage = dataStorage;
     this.submitValidity = submitValidity;
+    this.onInvalidate = onInvalidate;
 
     makeObservable(this as ThisType<this>, {
       async: action,
       sync: action,
       forceUpdate: action,
+      reset: action,
       data: computed,
+      isEnabled: computed,
+      isPlaceholderData: computed,
+      dataUpdatedAt: computed,
+      dataSource: computed,
+      placeholder: computed,
+      shouldAutoFetch: computed,
+      isActive: computed,
+      observedFieldsCount: computed,
       submitSuccess: action,
     });
+
+    this.seedInitialData(initialData, initialDataUpdatedAt);
+
+    this.auxiliary.trackObservers(this, [
+      'data',
+      'isLoading',
+      'isError',
+      'isSuccess',
+      'error',
+    ]);
+
+    // запрос данных начинается, только пока за data наблюдают
+    onBecomeObserved(this, 'data', this.startAutoFetch);
+    onBecomeUnobserved(this, 'data', this.stopAutoFetch);
+    this.auxiliary.watchStaleness(() => this.storage.dataUpdatedAt);
+
+    // cache-only квери не обращается к сети, поэтому не опрашивает ее
+    if (refetchInterval !== undefined && !this.isCacheOnly) {
+      this.auxiliary.watchPolling(
+        () =>
+          typeof refetchInterval === 'function'
+            ? refetchInterval(this.storage.data)
+            : refetchInterval,
+        () => this.proceedSync(),
+        { inBackground: refetchIntervalInBackground, focusManager },
+      );
+    }
+  }
+
+  /**
+   * Флаг политик, при которых запрос исполняется при каждом вызове, независимо от наличия данных
+   */
+  private get isAlwaysFetch() {
+    return (
+      this.defaultFetchPolicy === 'network-only' ||
+      this.defaultFetchPolicy === 'no-cache' ||
+      this.defaultFetchPolicy === 'cache-and-network'
+    );
+  }
+
+  private get isCacheOnly() {
+    return this.defaultFetchPolicy === 'cache-only';
+  }
+
+  private get isCacheAndNetwork() {
+    return this.defaultFetchPolicy === 'cache-and-network';
+  }
+
+  /**
+   * Количество наблюдаемых полей квери, т.е. data и статусов
+   */
+  public get observedFieldsCount() {
+    return this.auxiliary.observedFieldsCount;
+  }
+
+  /**
+   * Флаг, обозначающий, что за квери кто-то наблюдает.
+   * Активные квери перезапрашивают данные при инвалидации и не удаляются из кеша
+   */
+  public get isActive() {
+    return this.auxiliary.isActive;
+  }
+
+  /**
+   * Флаг, обозначающий, что квери включен и может исполнять запросы
+   */
+  public get isEnabled() {
+    return this.auxiliary.isEnabled;
+  }
+
+  /**
+   * Метод записи начальных данных в хранилище, если в нем еще нет данных
+   */
+  private seedInitialData = (
+    initialData?: InitialData<TResult>,
+    initialDataUpdatedAt?: number,
+  ) => {
+    if (initialData === undefined || this.storage.hasData) {
+      return;
+    }
+
+    const data =
+      typeof initialData === 'function'
+        ? (initialData as () => TResult | undefined)()
+        : initialData;
+
+    if (data === undefined) {
+      return;
+    }
+
+    runInAction(() => {
+      this.storage.setData(data, {
+        updatedAt: initialDataUpdatedAt,
+        source: 'initial',
+      });
+
+      this.auxiliary.submitSuccess();
+    });
+  };
+
+  /**
+   * Вычисленные данные-заполнитель
+   */
+  private get placeholder() {
+    return typeof this.placeholderData === 'function'
+      ? (
+          this.placeholderData as (
+            previousData: TResult | undefined,
+          ) => TResult | undefined
+        )(undefined)
+      : this.placeholderData;
+  }
+
+  /**
+   * Время последнего обновления данных в миллисекундах
+   */
+  public get dataUpdatedAt() {
+    return this.storage.dataUpdatedAt;
   }
 
-  private get isNetworkOnly() {
-    return this.defaultFetchPolicy === 'network-only';
+  /**
+   * Источник последнего обновления данных
+   */
+  public get dataSource() {
+    return this.storage.source;
+  }
+
+  /**
+   * Флаг, обозначающий, что data содержит данные-заполнитель, а не ответ запроса
+   */
+  public get isPlaceholderData() {
+    return !this.storage.hasData && this.placeholder !== undefined;
+  }
+
+  /**
+   * Данные хранилища, либо данные-заполнитель при их отсутствии
+   */
+  private get currentData() {
+    return this.isPlaceholderData ? this.placeholder : this.storage.data;
   }
 
   /**
    * Метод для инвалидации данных
    */
-  public invalidate = () => {
-    this.auxiliary.invalidate();
+  public invalidate = (params?: InvalidateQueryParams) => {
+    this.onInvalidate?.();
+    this.auxiliary.invalidate(params);
   };
 
+  /**
+   * Метод отмены текущего запроса.
+   * Статусы возвращаются в состояние до запроса, ответ не попадает в хранилище,
+   * а обработчики ошибок не вызываются
+   */
+  public cancel = () => {
+    this.auxiliary.cancel();
+  };
+
+  /**
+   * Метод остановки периодического перезапроса данных,
+   * вызывается при удалении квери из кеша, после вызова квери больше не опрашивает сеть
+   */
+  public stopPolling = () => {
+    this.auxiliary.stopPolling();
+  };
+
+  /**
+   * Метод сброса в исходное состояние: текущий запрос отменяется,
+   * данные и статусы в хранилищах очищаются
+   */
+  public reset = () => {
+    this.auxiliary.reset();
+    this.storage.clear();
+  };
+
+  /**
+   * Метод для исполнения запроса с передачей контекста
+   */
+  private execute = (signal: AbortSignal) =>
+    this.executor({ key: this.key, signal, meta: this.meta });
+
   /**
    * Синхронный метод получения данных
    */
   public sync: Sync<TResult, TError, undefined> = (params) => {
+    if (!this.isEnabled) {
+      // запрос исполнится, как только квери будет включен
+      this.auxiliary.deferUntilEnabled(() => this.sync(params));
+
+      return;
+    }
+
+    if (this.isCacheOnly) {
+      if (this.storage.hasData) {
+        params?.onSuccess?.(this.storage.data as TResult);
+      }
+
+      return;
+    }
+
     const isInstanceAllow = !(this.isLoading || this.isSuccess);
 
-    if (this.isNetworkOnly || this.auxiliary.isInvalid || isInstanceAllow) {
+    if (this.isAlwaysFetch || this.auxiliary.isStale || isInstanceAllow) {
       this.proceedSync(params);
     }
   };
@@ -149,19 +515,25 @@ export class Query<
   /**
    * Обработчик успешного ответа
    */
-  private submitSuccess = (resData: TResult) => {
-    this.storage.setData(resData);
+  private submitSuccess = (
+    resData: TResult,
+    source: DataSource = 'network',
+  ) => {
+    this.storage.setData(resData, { source });
     this.submitValidity?.();
 
     return resData;
   };
 
   /**
-   * Форс метод для установки данных
+   * Форс метод для установки данных,
+   * вместо данных можно передать функцию, вычисляющую новые данные на основе текущих
    */
-  public forceUpdate = (data: TResult) => {
+  public forceUpdate = (dataOrUpdater: DataUpdater<TResult>) => {
+    const data = this.storage.resolveData(dataOrUpdater);
+
     this.auxiliary.submitSuccess();
-    this.submitSuccess(data);
+    this.submitSuccess(data, 'forceUpdate');
   };
 
   /**
@@ -171,15 +543,20 @@ export class Query<
     const { onSuccess, onError } = options || {};
 
     this.auxiliary
-      .getUnifiedPromise(this.executor, (res) => {
+      .getUnifiedPromise(this.execute, (res) => {
         this.submitSuccess(res);
         onSuccess?.(res);
       })
       .catch((e: TError) => {
+        // отмена запроса не является ошибкой
+        if (e instanceof CancelledError) {
+          return;
+        }
+
         if (onError) {
           onError(e);
         } else {
-          this.defaultOnError?.(e);
+          this.defaultOnError?.(e, { key: this.key, meta: this.meta });
         }
       });
   };
@@ -189,33 +566,98 @@ export class Query<
    * предполагается, что нужно будет самостоятельно обрабатывать ошибку
    */
   public async = () => {
-    if (!this.isNetworkOnly && this.isSuccess && !this.auxiliary.isInvalid) {
+    if (this.isCacheOnly) {
+      return Promise.resolve(this.storage.data as TResult);
+    }
+
+    if (this.isCacheAndNetwork && this.isSuccess) {
+      // отдаем данные из кеша сразу, а обновляем их в фоне
+      this.proceedSync();
+
+      return Promise.resolve(this.storage.data as TResult);
+    }
+
+    if (!this.isAlwaysFetch && this.isSuccess && !this.auxiliary.isStale) {
       return Promise.resolve(this.storage.data as TResult);
     }
 
-    return this.auxiliary.getUnifiedPromise(this.executor, this.submitSuccess);
+    return this.auxiliary.getUnifiedPromise(this.execute, this.submitSuccess);
   };
 
   /**
-   * Содержит реактивные данные
-   * благодаря mobx, при изменении isInvalid, свойство будет вычисляться заново,
-   * следовательно, стриггерится условие невалидности,
-   * и начнется запрос, в результате которого, данные обновятся
+   * Флаг необходимости автоматического запроса данных,
+   * отслеживается реакцией, пока за data наблюдают
    */
-  public get data() {
+  private get shouldAutoFetch() {
+    // выключенный квери не запрашивает данные,
+    // а после включения флаг будет вычислен заново и запрос начнется
+    if (this.isCacheOnly || !this.isEnabled) {
+      return false;
+    }
+
     const shouldSync =
       this.enabledAutoFetch &&
       !this.isSuccess &&
       !this.isLoading &&
       !this.isError;
 
-    if (this.auxiliary.isInvalid || shouldSync) {
-      // т.к. при вызове апдейта, изменяются флаги, на которые подписан data,
-      // нужно вызывать этот экшн асинхронно
-      when(() => true, this.proceedSync);
-    }
+    return this.auxiliary.shouldRefetch || shouldSync;
+  }
+
+  /**
+   * Метод запуска автоматического запроса данных, вызывается, когда за data начинают наблюдать.
+   * Благодаря mobx, при изменении isInvalid, либо при устаревании данных, флаг будет вычислен заново,
+   * и начнется запрос, в результате которого, данные обновятся
+   */
+  private startAutoFetch = () => {
+    let isObservationStart = true;
 
-    // возвращаем имеющиеся данные
-    return this.storage.data;
+    this.disposeAutoFetch = reaction(
+      () => this.shouldAutoFetch,
+      (shouldFetch) => {
+        const shouldRefetchStale =
+          isObservationStart && this.shouldRefetchOnObserve;
+
+        isObservationStart = false;
+
+        if (shouldFetch || shouldRefetchStale) {
+          this.proceedSync();
+        }
+      },
+      { fireImmediately: true },
+    );
+  };
+
+  /**
+   * Флаг необходимости перезапроса данных при начале наблюдения.
+   * При staleTime: 0 устаревание не учитывается в shouldAutoFetch, чтобы запросы не зацикливались,
+   * поэтому устаревшие данные, например начальные, перезапрашиваются один раз при начале наблюдения.
+   * cache-and-network квери обновляет данные из кеша при каждом начале наблюдения
+   */
+  private get shouldRefetchOnObserve() {
+    return (
+      this.enabledAutoFetch &&
+      !this.isCacheOnly &&
+      this.isEnabled &&
+      this.isSuccess &&
+      !this.isLoading &&
+      (this.auxiliary.isStale || this.isCacheAndNetwork)
+    );
+  }
+
+  /**
+   * Метод остановки автоматического запроса данных, вызывается, когда за data перестают наблюдать
+   */
+  private stopAutoFetch = () => {
+    this.disposeAutoFetch?.();
+    this.disposeAutoFetch = undefined;
+  };
+
+  /**
+   * Содержит реактивные данные,
+   * пока за ними наблюдают, данные запрашиваются автоматически
+   */
+  public get data() {
+    return this.currentData;
   }
 }
@@ -2,8 +2,11 @@ import { computed, makeObservable } from 'mobx';
 
 import { type StatusStorage } from '../StatusStorage';
 
-export type QueryContainerAuxiliary = {
+export type QueryContainerAuxiliary<TError> = {
   isIdle: boolean;
+  isStale: boolean;
+  failureCount: number;
+  failureReason?: TError;
 };
 
 type Statuses<TError> = StatusStorage<TError>;
@@ -14,7 +17,7 @@ type Statuses<TError> = StatusStorage<TError>;
  */
 export abstract class QueryContainer<
   TError,
-  TAuxiliary extends QueryContainerAuxiliary,
+  TAuxiliary extends QueryContainerAuxiliary<TError>,
   TIsBackground extends boolean,
 > implements Statuses<TError>
 {
@@ -25,9 +28,14 @@ export abstract class QueryContainer<
   ) {
     makeObservable(this, {
       error: computed,
+      errorUpdatedAt: computed,
       isError: computed,
       isIdle: computed,
+      isStale: computed,
+      failureCount: computed,
+      failureReason: computed,
       isLoading: computed,
+      isPaused: computed,
       isSuccess: computed,
     });
   }
@@ -39,6 +47,13 @@ export abstract class QueryContainer<
     return this.statusStorage.isLoading;
   }
 
+  /**
+   * Флаг, обозначающий, что запрос приостановлен до восстановления сети, либо до возобновления запросов
+   */
+  public get isPaused() {
+    return this.statusStorage.isPaused;
+  }
+
   /**
    * Флаг обозначающий, что последний запрос был зафейлен
    */
@@ -53,6 +68,13 @@ export abstract class QueryContainer<
     return this.statusStorage.error;
   }
 
+  /**
+   * Время последней ошибки в миллисекундах
+   */
+  public get errorUpdatedAt() {
+    return this.statusStorage.errorUpdatedAt;
+  }
+
   /**
    * Флаг обозначающий, что последний запрос был успешно завершен
    */
@@ -67,6 +89,37 @@ export abstract class QueryContainer<
     return this.auxiliary.isIdle;
   }
 
+  /**
+   * Флаг, обозначающий, что данные устарели и будут перезапрошены при следующем обращении
+   */
+  public get isStale() {
+    return this.auxiliary.isStale;
+  }
+
+  /**
+   * Количество неудачных попыток текущего запроса, сбрасывается при старте нового запроса и при успехе
+   * @example
+   * const query = mobxQuery.createQuery(
+   *     ['some cache key'],
+   *     () => Promise.reject('foo'),
+   *     { retry: 3 }
+   * );
+   *
+   * query.sync();
+   * // во время повторных попыток
+   * console.log(`Повторная попытка (${query.failureCount}/3)`);
+   */
+  public get failureCount() {
+    return this.auxiliary.failureCount;
+  }
+
+  /**
+   * Ошибка последней неудачной попытки текущего запроса
+   */
+  public get failureReason() {
+    return this.auxiliary.failureReason;
+  }
+
   /**
    * Статусы, изменяющиеся после первого успешного запроса в режиме isBackground: true
    * @example
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { observable, runInAction } from 'mobx';
+
+import { DataStorage } from '../DataStorage';
+import { StatusStorage } from '../StatusStorage';
+import { InfiniteQuery } from '../InfiniteQuery';
+import type { CacheKey } from '../types';
+
+import { ReactiveInfiniteQuery } from './ReactiveInfiniteQuery';
+
+describe('ReactiveInfiniteQuery', () => {
+  const createReactiveQuery = () => {
+    const filter = observable({ search: 'foo' });
+    const executor = vi.fn(
+      (search: string, { offset }: { offset: number; count: number }) =>
+        Promise.resolve([`${search} ${offset}`]),
+    );
+    // эмуляция кеширования квери по ключу
+    const cache = new Map<string, InfiniteQuery<string>>();
+    const createQuery = (key: CacheKey[]) => {
+      const keyHash = JSON.stringify(key);
+      const cachedQuery = cache.get(keyHash);
+
+      if (cachedQuery) {
+        return cachedQuery;
+      }
+
+      const query = new InfiniteQuery<string>(
+        (params) => executor(key[1] as string, params),
+        {
+          dataStorage: new DataStorage<string[]>(),
+          statusStorage: new StatusStorage(),
+          incrementCount: 1,
+        },
+      );
+
+      cache.set(keyHash, query);
+
+      return query;
+    };
+
+    const reactiveQuery = new ReactiveInfiniteQuery(
+      () => ['list', filter.search],
+      createQuery,
+    );
+
+    const setSearch = (search: string) =>
+      runInAction(() => {
+        filter.search = search;
+      });
+
+    return { reactiveQuery, executor, setSearch };
+  };
+
+  it('Квери переключается при изменении ключа', async () => {
+    const { reactiveQuery, setSearch } = createReactiveQuery();
+
+    await reactiveQuery.async();
+    setSearch('bar');
+    await reactiveQuery.async();
+    expect(reactiveQuery.data).toStrictEqual(['bar 0']);
+  });
+
+  it('fetchMore запрашивает следующий набор данных квери текущего ключа', async () => {
+    const { reactiveQuery, executor, setSearch } = createReactiveQuery();
+
+    setSearch('bar');
+    await reactiveQuery.async();
+    reactiveQuery.fetchMore();
+    expect(executor).toHaveBeenLastCalledWith('bar', { offset: 1, count: 1 });
+    expect(reactiveQuery.isEndReached).toBeFalsy();
+  });
+});
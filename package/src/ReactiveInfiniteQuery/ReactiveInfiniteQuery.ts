@@ -0,0 +1,54 @@
+import { action, computed, makeObservable } from 'mobx';
+
+import type { CacheKey, SelectedQuery } from '../types';
+import type { InfiniteQuery } from '../InfiniteQuery';
+import {
+  ReactiveQueryContainer,
+  type ReactiveQueryParams,
+} from '../ReactiveQueryContainer';
+
+/**
+ * Инфинит квери, ключ которого вычисляется из observable.
+ * При изменении ключа переключается на закешированный квери, соответствующий новому ключу
+ */
+export class ReactiveInfiniteQuery<
+  TResult,
+  TError = void,
+  TIsBackground extends boolean = false,
+  TData = Array<TResult>,
+> extends ReactiveQueryContainer<
+  Array<TResult>,
+  TError,
+  TIsBackground,
+  TData,
+  SelectedQuery<InfiniteQuery<TResult, TError, TIsBackground>, TData>
+> {
+  constructor(
+    getKey: () => CacheKey[],
+    createQuery: (
+      key: CacheKey[],
+    ) => SelectedQuery<InfiniteQuery<TResult, TError, TIsBackground>, TData>,
+    params?: ReactiveQueryParams<TData>,
+  ) {
+    super(getKey, createQuery, params);
+
+    makeObservable(this, {
+      isEndReached: computed,
+      fetchMore: action,
+    });
+  }
+
+  /**
+   * Флаг того, что мы достигли предела запрашиваемых элементов текущего квери
+   */
+  public get isEndReached() {
+    return this.query.isEndReached;
+  }
+
+  /**
+   * Метод для запроса следующего набора данных текущего квери
+   */
+  public fetchMore = () => {
+    this.query.fetchMore();
+  };
+}
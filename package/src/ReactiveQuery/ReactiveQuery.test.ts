@@ -0,0 +1,249 @@
+import { describe, expect, it, vi } from 'vitest';
+import { autorun, observable, runInAction, when } from 'mobx';
+
+import { DataStorage } from '../DataStorage';
+import { StatusStorage } from '../StatusStorage';
+import { Query } from '../Query';
+import type { CacheKey } from '../types';
+import type { ReactiveQueryParams } from '../ReactiveQueryContainer';
+
+import { ReactiveQuery } from './ReactiveQuery';
+
+describe('ReactiveQuery', () => {
+  const createReactiveQuery = (
+    params: ReactiveQueryParams<string> = {},
+    executor = vi.fn((page: number) => Promise.resolve(`page ${page}`)),
+  ) => {
+    const filter = observable({ page: 1 });
+    // эмуляция кеширования квери по ключу
+    const cache = new Map<string, Query<string>>();
+    const createQuery = (key: CacheKey[]) => {
+      const keyHash = JSON.stringify(key);
+      const cachedQuery = cache.get(keyHash);
+
+      if (cachedQuery) {
+        return cachedQuery;
+      }
+
+      const query = new Query<string>(() => executor(key[1] as number), {
+        dataStorage: new DataStorage<string>(),
+        statusStorage: new StatusStorage(),
+        enabledAutoFetch: true,
+      });
+
+      cache.set(keyHash, query);
+
+      return query;
+    };
+
+    const reactiveQuery = new ReactiveQuery(
+      () => ['list', filter.page],
+      createQuery,
+      params,
+    );
+
+    const setPage = (page: number) =>
+      runInAction(() => {
+        filter.page = page;
+      });
+
+    return { reactiveQuery, executor, setPage };
+  };
+
+  it('Ключ вычисляется из observable', () => {
+    const { reactiveQuery, setPage } = createReactiveQuery();
+
+    setPage(2);
+    expect(reactiveQuery.key).toStrictEqual(['list', 2]);
+  });
+
+  it('Квери переключается при изменении ключа', async () => {
+    const { reactiveQuery, setPage } = createReactiveQuery();
+
+    await reactiveQuery.async();
+    expect(reactiveQuery.data).toBe('page 1');
+    setPage(2);
+    await reactiveQuery.async();
+    expect(reactiveQuery.data).toBe('page 2');
+  });
+
+  it('Квери переиспользуется при возврате к прежнему ключу', async () => {
+    const { reactiveQuery, executor, setPage } = createReactiveQuery();
+
+    await reactiveQuery.async();
+
+    const firstQuery = reactiveQuery.query;
+
+    setPage(2);
+    await reactiveQuery.async();
+    setPage(1);
+    expect(reactiveQuery.query).toBe(firstQuery);
+    await reactiveQuery.async();
+    expect(executor).toBeCalledTimes(2);
+  });
+
+  it('Данные запрашиваются автоматически при изменении ключа', async () => {
+    const { reactiveQuery, executor, setPage } = createReactiveQuery();
+    const dispose = autorun(() => reactiveQuery.data);
+
+    await when(() => reactiveQuery.data === 'page 1');
+    setPage(2);
+    await when(() => reactiveQuery.data === 'page 2');
+    dispose();
+    expect(executor).toBeCalledTimes(2);
+  });
+
+  it('Статусы соответствуют квери текущего ключа', async () => {
+    const { reactiveQuery, setPage } = createReactiveQuery();
+
+    await reactiveQuery.async();
+    expect(reactiveQuery.isSuccess).toBeTruthy();
+    setPage(2);
+    expect(reactiveQuery.isSuccess).toBeFalsy();
+    expect(reactiveQuery.isIdle).toBeTruthy();
+  });
+
+  it('Начальные данные квери нового ключа записываются в наблюдаемое хранилище без промежуточных значений', () => {
+    const filter = observable({ page: 1 });
+    const storages = [new DataStorage<string>(), new DataStorage<string>()];
+    const reactiveQuery = new ReactiveQuery(
+      () => ['list', filter.page],
+      (key) =>
+        new Query<string>(() => Promise.resolve(''), {
+          dataStorage: storages[(key[1] as number) - 1],
+          statusStorage: new StatusStorage(),
+          initialData: `initial ${key[1]}`,
+        }),
+    );
+    const values: Array<string | undefined> = [];
+    const disposeStorage = autorun(() => storages[1].data);
+    const dispose = autorun(() => values.push(reactiveQuery.data));
+
+    runInAction(() => {
+      filter.page = 2;
+    });
+
+    expect(values).toStrictEqual(['initial 1', 'initial 2']);
+    dispose();
+    disposeStorage();
+  });
+
+  describe('При создании нового квери на каждый вызов createQuery', () => {
+    const createUncachedReactiveQuery = () => {
+      const executor = vi.fn(
+        ({ signal }: { signal: AbortSignal }) =>
+          new Promise<string>((_, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+          }),
+      );
+      const createQuery = vi.fn(
+        () =>
+          new Query<string>(executor, {
+            dataStorage: new DataStorage<string>(),
+            statusStorage: new StatusStorage(),
+          }),
+      );
+      const reactiveQuery = new ReactiveQuery(() => ['list'], createQuery);
+
+      return { reactiveQuery, executor, createQuery };
+    };
+
+    it('Квери переиспользуется при чтении вне реакций', () => {
+      const { reactiveQuery, createQuery } = createUncachedReactiveQuery();
+
+      expect(reactiveQuery.query).toBe(reactiveQuery.query);
+      expect(createQuery).toBeCalledTimes(1);
+    });
+
+    it('Статусы соответствуют исполняемому запросу', () => {
+      const { reactiveQuery } = createUncachedReactiveQuery();
+
+      reactiveQuery.sync();
+      expect(reactiveQuery.isLoading).toBeTruthy();
+      expect(reactiveQuery.isIdle).toBeFalsy();
+    });
+
+    it('Отмена прерывает исполняемый запрос', () => {
+      const { reactiveQuery, executor } = createUncachedReactiveQuery();
+
+      reactiveQuery.sync();
+      reactiveQuery.cancel();
+      expect(executor.mock.calls[0][0].signal.aborted).toBeTruthy();
+      expect(reactiveQuery.isLoading).toBeFalsy();
+    });
+  });
+
+  describe('При использовании keepPreviousData', () => {
+    it('Данные предыдущего ключа доступны во время загрузки нового ключа', async () => {
+      const { reactiveQuery, setPage } = createReactiveQuery({
+        keepPreviousData: true,
+      });
+      const dispose = autorun(() => reactiveQuery.data);
+
+      await when(() => reactiveQuery.isSuccess);
+      setPage(2);
+      expect(reactiveQuery.isLoading).toBeTruthy();
+      expect(reactiveQuery.data).toBe('page 1');
+      await when(() => reactiveQuery.isSuccess);
+      dispose();
+      expect(reactiveQuery.data).toBe('page 2');
+    });
+
+    it('Данные последнего загруженного ключа сохраняются при быстром переключении ключей', async () => {
+      const { reactiveQuery, setPage } = createReactiveQuery({
+        keepPreviousData: true,
+      });
+
+      await reactiveQuery.async();
+      setPage(2);
+      expect(reactiveQuery.data).toBe('page 1');
+      setPage(3);
+      expect(reactiveQuery.data).toBe('page 1');
+    });
+
+    it('Данные предыдущего ключа не используются по умолчанию', async () => {
+      const { reactiveQuery, setPage } = createReactiveQuery();
+
+      await reactiveQuery.async();
+      setPage(2);
+      expect(reactiveQuery.data).toBeUndefined();
+    });
+
+    it('Флаг isPlaceholderData включен, пока отображаются данные предыдущего ключа', async () => {
+      const { reactiveQuery, setPage } = createReactiveQuery({
+        keepPreviousData: true,
+      });
+
+      await reactiveQuery.async();
+      expect(reactiveQuery.isPlaceholderData).toBeFalsy();
+      setPage(2);
+      expect(reactiveQuery.isPlaceholderData).toBeTruthy();
+      await reactiveQuery.async();
+      expect(reactiveQuery.isPlaceholderData).toBeFalsy();
+    });
+  });
+
+  describe('При использовании placeholderData', () => {
+    it('Данные-заполнитель вычисляются на основе данных предыдущего ключа', async () => {
+      const { reactiveQuery, setPage } = createReactiveQuery({
+        placeholderData: (previousData?: string) =>
+          previousData && `${previousData} (предыдущая)`,
+      });
+
+      expect(reactiveQuery.data).toBeUndefined();
+      await reactiveQuery.async();
+      setPage(2);
+      expect(reactiveQuery.data).toBe('page 1 (предыдущая)');
+      expect(reactiveQuery.isPlaceholderData).toBeTruthy();
+    });
+
+    it('Данные-заполнитель используются при отсутствии данных предыдущего ключа', () => {
+      const { reactiveQuery } = createReactiveQuery({
+        placeholderData: 'placeholder',
+      });
+
+      expect(reactiveQuery.data).toBe('placeholder');
+      expect(reactiveQuery.isPlaceholderData).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import type { Query } from '../Query';
+import type { SelectedQuery } from '../types';
+import { ReactiveQueryContainer } from '../ReactiveQueryContainer';
+
+/**
+ * Квери, ключ которого вычисляется из observable.
+ * При изменении ключа переключается на закешированный квери, соответствующий новому ключу
+ */
+export class ReactiveQuery<
+  TResult,
+  TError = void,
+  TIsBackground extends boolean = false,
+  TData = TResult,
+> extends ReactiveQueryContainer<
+  TResult,
+  TError,
+  TIsBackground,
+  TData,
+  SelectedQuery<Query<TResult, TError, TIsBackground>, TData>
+> {}
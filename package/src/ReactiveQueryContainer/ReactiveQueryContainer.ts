@@ -0,0 +1,388 @@
+import { action, computed, makeObservable, observable, reaction } from 'mobx';
+
+import type {
+  CacheKey,
+  DataUpdater,
+  InvalidateQueryParams,
+  PlaceholderData,
+  QueryBaseActions,
+  Sync,
+  SyncParams,
+} from '../types';
+import { type StatusStorage } from '../StatusStorage';
+import { type DataSource } from '../DataStorage';
+
+/**
+ * Квери, на который переключается реактивный квери при изменении ключа
+ */
+export type ReactiveQuerySource<
+  TResult,
+  TError,
+  TIsBackground extends boolean,
+  TData,
+> = {
+  data?: TData;
+  isLoading: boolean;
+  isPaused: boolean;
+  isError: boolean;
+  error?: TError;
+  errorUpdatedAt?: number;
+  dataUpdatedAt?: number;
+  dataSource?: DataSource;
+  isSuccess: boolean;
+  isIdle: boolean;
+  isStale: boolean;
+  isEnabled: boolean;
+  isActive: boolean;
+  observedFieldsCount: number;
+  isPlaceholderData: boolean;
+  failureCount: number;
+  failureReason?: TError;
+  background: TIsBackground extends true ? StatusStorage<TError> : null;
+  sync: (
+    params?: Pick<SyncParams<TResult, TError>, 'onSuccess' | 'onError'>,
+  ) => void;
+  async: () => Promise<TResult>;
+  invalidate: (params?: InvalidateQueryParams) => void;
+  cancel: () => void;
+  reset: () => void;
+  forceUpdate: (dataOrUpdater: DataUpdater<TResult>) => void;
+};
+
+export type ReactiveQueryParams<TData> = {
+  /**
+   * Флаг, при котором во время загрузки данных по новому ключу
+   * data содержит данные предыдущего ключа
+   * @default false
+   */
+  keepPreviousData?: boolean;
+  /**
+   * Данные-заполнитель, возвращаемые в data, пока у квери текущего ключа нет данных,
+   * либо функция их вычисления на основе данных предыдущего ключа.
+   * Приоритетнее keepPreviousData
+   */
+  placeholderData?: PlaceholderData<TData>;
+};
+
+/**
+ * Контейнер для бойлерплейт части реактивных квери,
+ * отслеживает ключ и переключается на квери, соответствующий текущему ключу
+ */
+export abstract class ReactiveQueryContainer<
+  TResult,
+  TError,
+  TIsBackground extends boolean,
+  TData,
+  TQuery extends ReactiveQuerySource<TResult, TError, TIsBackground, TData>,
+> implements QueryBaseActions<TResult, TError>
+{
+  /**
+   * Флаг, при котором во время загрузки данных по новому ключу
+   * data содержит данные предыдущего ключа
+   */
+  private readonly keepPreviousData: boolean;
+
+  /**
+   * Данные-заполнитель, либо функция их вычисления на основе данных предыдущего ключа
+   */
+  private readonly placeholderData?: PlaceholderData<TData>;
+
+  /**
+   * Квери, соответствующий текущему ключу.
+   * Создается вне вычислений mobx: при создании контейнера и в реакции на изменение ключа
+   */
+  private currentQuery: TQuery;
+
+  /**
+   * Последний квери с успешно загруженными данными, на который был переключен ключ
+   */
+  private previousQuery?: TQuery = undefined;
+
+  constructor(
+    private readonly getKey: () => CacheKey[],
+    private readonly createQuery: (key: CacheKey[]) => TQuery,
+    {
+      keepPreviousData = false,
+      placeholderData,
+    }: ReactiveQueryParams<TData> = {},
+  ) {
+    this.keepPreviousData = keepPreviousData;
+    this.placeholderData = placeholderData;
+    this.currentQuery = createQuery(this.key);
+
+    makeObservable(this as ThisType<this>, {
+      key: computed.struct,
+      currentQuery: observable.ref,
+      previousQuery: observable.ref,
+      query: computed,
+      data: computed,
+      previousData: computed,
+      placeholder: computed,
+      isOwnPlaceholder: computed,
+      isPlaceholderData: computed,
+      error: computed,
+      errorUpdatedAt: computed,
+      dataUpdatedAt: computed,
+      dataSource: computed,
+      isError: computed,
+      isIdle: computed,
+      isStale: computed,
+      isEnabled: computed,
+      isActive: computed,
+      observedFieldsCount: computed,
+      failureCount: computed,
+      failureReason: computed,
+      isLoading: computed,
+      isPaused: computed,
+      isSuccess: computed,
+      forceUpdate: action,
+      switchQuery: action,
+    });
+
+    // ключ вычисляется структурно, поэтому реакция срабатывает только при изменении его содержимого
+    reaction(() => this.key, this.switchQuery);
+  }
+
+  /**
+   * Текущий ключ, пересчитывается при изменении используемых в нем observable
+   */
+  public get key() {
+    return this.getKey();
+  }
+
+  /**
+   * Квери, соответствующий текущему ключу.
+   * Квери с одинаковым ключом переиспользуются благодаря кешированию в MobxQuery
+   */
+  public get query() {
+    return this.currentQuery;
+  }
+
+  /**
+   * Метод переключения на квери нового ключа.
+   * Квери создается в действии, а не в вычислении query, т.к. при создании квери
+   * запускает свои реакции и может записать начальные данные в хранилище
+   */
+  private switchQuery = (key: CacheKey[]) => {
+    const prevQuery = this.currentQuery;
+    const query = this.createQuery(key);
+
+    // запоминаем только квери с данными, чтобы при быстром переключении ключей
+    // не потерять последние загруженные данные
+    if (prevQuery !== query && prevQuery.isSuccess) {
+      this.previousQuery = prevQuery;
+    }
+
+    this.currentQuery = query;
+  };
+
+  /**
+   * Данные последнего квери с загруженными данными, на который был переключен ключ
+   */
+  private get previousData() {
+    const { previousQuery } = this;
+
+    return previousQuery && previousQuery !== this.query
+      ? previousQuery.data
+      : undefined;
+  }
+
+  /**
+   * Вычисленные данные-заполнитель реактивного квери
+   */
+  private get placeholder() {
+    if (this.placeholderData !== undefined) {
+      return typeof this.placeholderData === 'function'
+        ? (
+            this.placeholderData as (
+              previousData: TData | undefined,
+            ) => TData | undefined
+          )(this.previousData)
+        : this.placeholderData;
+    }
+
+    return this.keepPreviousData ? this.previousData : undefined;
+  }
+
+  /**
+   * Флаг, обозначающий, что у квери текущего ключа нет данных,
+   * и data содержит данные-заполнитель реактивного квери
+   */
+  private get isOwnPlaceholder() {
+    const { query } = this;
+    // обращаемся к data текущего квери в любом случае,
+    // чтобы сработал автоматический запрос данных по новому ключу
+    const data = query.data;
+
+    return (
+      (data === undefined || query.isPlaceholderData) &&
+      this.placeholder !== undefined
+    );
+  }
+
+  /**
+   * Данные текущего квери, либо данные-заполнитель, пока данные загружаются
+   */
+  public get data() {
+    return this.isOwnPlaceholder ? this.placeholder : this.query.data;
+  }
+
+  /**
+   * Флаг, обозначающий, что data содержит данные-заполнитель, а не ответ запроса
+   */
+  public get isPlaceholderData() {
+    return this.isOwnPlaceholder || this.query.isPlaceholderData;
+  }
+
+  /**
+   * Флаг загрузки данных
+   */
+  public get isLoading() {
+    return this.query.isLoading;
+  }
+
+  /**
+   * Флаг, обозначающий, что запрос приостановлен до восстановления сети, либо до возобновления запросов
+   */
+  public get isPaused() {
+    return this.query.isPaused;
+  }
+
+  /**
+   * Флаг обозначающий, что последний запрос был зафейлен
+   */
+  public get isError() {
+    return this.query.isError;
+  }
+
+  /**
+   * Данные о последней ошибке
+   */
+  public get error() {
+    return this.query.error;
+  }
+
+  /**
+   * Время последней ошибки текущего квери в миллисекундах
+   */
+  public get errorUpdatedAt() {
+    return this.query.errorUpdatedAt;
+  }
+
+  /**
+   * Время последнего обновления данных текущего квери в миллисекундах
+   */
+  public get dataUpdatedAt() {
+    return this.query.dataUpdatedAt;
+  }
+
+  /**
+   * Источник последнего обновления данных текущего квери
+   */
+  public get dataSource() {
+    return this.query.dataSource;
+  }
+
+  /**
+   * Флаг обозначающий, что последний запрос был успешно завершен
+   */
+  public get isSuccess() {
+    return this.query.isSuccess;
+  }
+
+  /**
+   * Флаг, обозначающий простаивание, т.е. запроса еще не было
+   */
+  public get isIdle() {
+    return this.query.isIdle;
+  }
+
+  /**
+   * Флаг, обозначающий, что данные устарели и будут перезапрошены при следующем обращении
+   */
+  public get isStale() {
+    return this.query.isStale;
+  }
+
+  /**
+   * Флаг, обозначающий, что квери включен и может исполнять запросы
+   */
+  public get isEnabled() {
+    return this.query.isEnabled;
+  }
+
+  /**
+   * Флаг, обозначающий, что за текущим квери кто-то наблюдает
+   */
+  public get isActive() {
+    return this.query.isActive;
+  }
+
+  /**
+   * Количество наблюдаемых полей текущего квери
+   */
+  public get observedFieldsCount() {
+    return this.query.observedFieldsCount;
+  }
+
+  /**
+   * Количество неудачных попыток текущего запроса
+   */
+  public get failureCount() {
+    return this.query.failureCount;
+  }
+
+  /**
+   * Ошибка последней неудачной попытки текущего запроса
+   */
+  public get failureReason() {
+    return this.query.failureReason;
+  }
+
+  /**
+   * Фоновые статусы текущего квери, доступны в режиме isBackground: true
+   */
+  public get background() {
+    return this.query.background;
+  }
+
+  /**
+   * Синхронный метод получения данных текущего квери
+   */
+  public sync: Sync<TResult, TError> = (params) => {
+    this.query.sync(params);
+  };
+
+  /**
+   * Асинхронный метод получения данных текущего квери
+   */
+  public async = () => this.query.async();
+
+  /**
+   * Метод для инвалидации данных текущего квери
+   */
+  public invalidate = (params?: InvalidateQueryParams) => {
+    this.query.invalidate(params);
+  };
+
+  /**
+   * Метод отмены текущего запроса
+   */
+  public cancel = () => {
+    this.query.cancel();
+  };
+
+  /**
+   * Метод сброса текущего квери в исходное состояние
+   */
+  public reset = () => {
+    this.query.reset();
+  };
+
+  /**
+   * Форс метод для установки данных текущего квери
+   */
+  public forceUpdate = (dataOrUpdater: DataUpdater<TResult>) => {
+    this.query.forceUpdate(dataOrUpdater);
+  };
+}
@@ -6,8 +6,10 @@ export class StatusStorage<TError> {
   constructor() {
     makeObservable(this, {
       error: observable,
+      errorUpdatedAt: observable,
       isError: observable,
       isLoading: observable,
+      isPaused: observable,
       isSuccess: observable,
     });
   }
@@ -17,6 +19,11 @@ export class StatusStorage<TError> {
    */
   public isLoading: boolean = false;
 
+  /**
+   * Флаг, обозначающий, что запрос приостановлен до восстановления сети, либо до возобновления запросов
+   */
+  public isPaused: boolean = false;
+
   /**
    * Флаг обозначающий, что последний запрос был зафейлен
    */
@@ -27,6 +34,11 @@ export class StatusStorage<TError> {
    */
   public error?: TError = undefined;
 
+  /**
+   * Время последней ошибки в миллисекундах
+   */
+  public errorUpdatedAt?: number = undefined;
+
   /**
    * Флаг, обозначающий успешность завершения последнего запроса
    */
@@ -56,4 +56,26 @@ describe('StorageFactory', () => {
 
     expect(dataA).not.toBe(dataB);
   });
+
+  it('HasStorage не создает стор при проверке наличия', () => {
+    const createDataSpy = vi.fn(() => ({}));
+    const sut = buildSut(createDataSpy);
+
+    expect(sut.hasStorage('foo')).toBeFalsy();
+    expect(createDataSpy).not.toBeCalled();
+    sut.getStorage('foo');
+    expect(sut.hasStorage('foo')).toBeTruthy();
+  });
+
+  it('GetStorage создает новую сущность после удаления по ключу', () => {
+    const sut = buildSut(() => ({}));
+
+    const dataA = sut.getStorage('foo');
+
+    sut.removeStorage('foo');
+
+    const dataB = sut.getStorage('foo');
+
+    expect(dataA).not.toBe(dataB);
+  });
 });
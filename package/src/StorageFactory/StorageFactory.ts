@@ -1,18 +1,21 @@
 import { AdaptableMap } from '../AdaptableMap';
 
-export abstract class StorageFactory<TStorage extends {}> {
+export abstract class StorageFactory<TStorage extends {}, TOptions = void> {
   private readonly adaptableMap = new AdaptableMap<TStorage>();
 
-  protected constructor(private readonly createStorage: () => TStorage) {}
+  protected constructor(
+    private readonly createStorage: (options: TOptions) => TStorage,
+  ) {}
 
   /**
-   * Фабричный метод получения/создания инстанса хранилища по ключу
+   * Фабричный метод получения/создания инстанса хранилища по ключу,
+   * параметры передаются в создаваемое хранилище
    */
-  public getInternalStorage = (keyHash: string) => {
+  public getInternalStorage = (keyHash: string, options: TOptions) => {
     const storage = this.adaptableMap.get(keyHash);
 
     if (!storage) {
-      const createdStorage = this.createStorage();
+      const createdStorage = this.createStorage(options);
 
       this.adaptableMap.set(keyHash, createdStorage);
 
@@ -21,4 +24,17 @@ export abstract class StorageFactory<TStorage extends {}> {
 
     return storage;
   };
+
+  /**
+   * Метод проверки наличия инстанса хранилища по ключу, не создает хранилище
+   */
+  public hasStorage = (keyHash: string) =>
+    Boolean(this.adaptableMap.get(keyHash));
+
+  /**
+   * Метод удаления инстанса хранилища по ключу
+   */
+  public removeStorage = (keyHash: string) => {
+    this.adaptableMap.delete(keyHash);
+  };
 }
@@ -4,4 +4,18 @@ export { Query } from './Query';
 
 export { InfiniteQuery } from './InfiniteQuery';
 
+export { ReactiveQuery } from './ReactiveQuery';
+
+export { ReactiveInfiniteQuery } from './ReactiveInfiniteQuery';
+
 export { MobxQuery } from './MobxQuery';
+
+export { CancelledError } from './CancelledError';
+
+export { FocusManager } from './FocusManager';
+
+export { OnlineManager } from './OnlineManager';
+
+export { ExecutionGate } from './ExecutionGate';
+
+export { PauseTimeoutError } from './PauseTimeoutError';
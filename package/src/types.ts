@@ -49,12 +49,154 @@ export type QueryBaseActions<TResult, TError, TExecutorParams = void> = {
   isIdle: boolean;
 };
 
+/**
+ * Произвольные мета-данные, задаваемые при создании квери или мутации
+ */
+export type QueryMeta = Record<string, unknown>;
+
+/**
+ * Контекст исполнения запроса, передаваемый в executor
+ */
+export type ExecutorContext = {
+  /**
+   * Сигнал отмены запроса, срабатывает при вызове cancel
+   */
+  signal: AbortSignal;
+  /**
+   * Мета-данные, переданные при создании
+   */
+  meta?: QueryMeta;
+};
+
+/**
+ * Контекст исполнения запроса, передаваемый в executor кешируемых квери
+ */
+export type QueryExecutorContext = ExecutorContext & {
+  /**
+   * Ключ, переданный при создании квери
+   */
+  key: CacheKey[];
+};
+
+/**
+ * Контекст ошибки, передаваемый в обработчик ошибки по умолчанию
+ */
+export type ErrorContext = {
+  /**
+   * Ключ квери, для мутаций отсутствует
+   */
+  key?: CacheKey[];
+  /**
+   * Мета-данные, переданные при создании
+   */
+  meta?: QueryMeta;
+};
+
+/**
+ * Обработчик ошибки по умолчанию,
+ * будет вызван, если при вызове sync не был передан отдельный onError параметр
+ */
+export type OnError<TError> = (error: TError, context: ErrorContext) => void;
+
+/**
+ * Количество повторных попыток запроса после ошибки,
+ * либо предикат, определяющий необходимость повторной попытки
+ */
+export type Retry<TError> =
+  | number
+  | ((failureCount: number, error: TError) => boolean);
+
+/**
+ * Задержка в миллисекундах перед повторной попыткой запроса,
+ * либо функция ее вычисления
+ */
+export type RetryDelay<TError> =
+  | number
+  | ((failureCount: number, error: TError) => number);
+
+/**
+ * Флаг доступности запросов квери,
+ * либо функция его вычисления, отслеживаемая mobx
+ */
+export type Enabled = boolean | (() => boolean);
+
+/**
+ * Начальные данные, либо функция их ленивого вычисления
+ */
+export type InitialData<TData> = TData | (() => TData | undefined);
+
+/**
+ * Данные-заполнитель, отображаемые до получения данных,
+ * либо функция их вычисления на основе предыдущих данных
+ */
+export type PlaceholderData<TData> =
+  | TData
+  | ((previousData: TData | undefined) => TData | undefined);
+
+/**
+ * Интервал периодического перезапроса данных в миллисекундах,
+ * либо функция его вычисления на основе текущих данных.
+ * false останавливает периодический перезапрос
+ */
+export type RefetchInterval<TData> =
+  | number
+  | false
+  | ((data: TData | undefined) => number | false);
+
+/**
+ * Параметры инвалидации данных квери
+ */
+export type InvalidateQueryParams = {
+  /**
+   * Флаг, при котором наблюдаемый квери сразу перезапрашивает инвалидированные данные.
+   * Без перезапроса данные только помечаются устаревшими
+   * и перезапрашиваются при следующем вызове sync/async, либо при следующем начале наблюдения
+   * @default true
+   */
+  refetch?: boolean;
+};
+
+/**
+ * Новые данные, либо функция их вычисления на основе текущих данных
+ */
+export type DataUpdater<TData> =
+  | TData
+  | ((prevData: TData | undefined) => TData);
+
+/**
+ * Квери, data которого преобразована через select.
+ * Если тип преобразованных данных совпадает с типом данных квери, тип квери не меняется
+ */
+export type SelectedQuery<TQuery extends { data?: unknown }, TData> = [
+  TData | undefined,
+] extends [TQuery['data']]
+  ? [TQuery['data']] extends [TData | undefined]
+    ? TQuery & { readonly data: TData | undefined }
+    : Omit<TQuery, 'data'> & { readonly data: TData | undefined }
+  : Omit<TQuery, 'data'> & { readonly data: TData | undefined };
+
 /**
  * политика получения данных.
  * @enum cache-first - данные сначала берутся из кеша, если их нет, тогда идет обращение к сети, ответ записывается в кэш
  * @enum network-only - данные всегда берутся из сети, при этом ответ записывается в кэш
+ * @enum cache-and-network - данные сразу берутся из кеша и одновременно обновляются из сети, статусы обновления записываются в фоновое хранилище
+ * @enum cache-only - данные берутся только из кеша, обращения к сети не происходит
+ * @enum no-cache - данные всегда берутся из сети, при этом ответ не записывается в кэш
+ */
+export type FetchPolicy =
+  | 'network-only'
+  | 'cache-first'
+  | 'cache-and-network'
+  | 'cache-only'
+  | 'no-cache';
+
+/**
+ * режим работы с сетью.
+ * @enum online - запросы исполняются только при наличии сети, без сети они приостанавливаются до ее восстановления
+ * @enum always - запросы исполняются независимо от наличия сети
+ * @enum offlineFirst - первая попытка запроса исполняется всегда, а повторные попытки без сети приостанавливаются до ее восстановления
  */
-export type FetchPolicy = 'network-only' | 'cache-first';
+export type NetworkMode = 'online' | 'always' | 'offlineFirst';
 
 /**
  * ключ для кешированя